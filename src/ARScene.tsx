@@ -1,22 +1,74 @@
-import { useRef, useEffect, useMemo } from "react";
-import { Text, Line } from "@react-three/drei";
+import { useRef, useEffect, useLayoutEffect, useMemo, useState } from "react";
+import { useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
+import { Text, Line, Edges } from "@react-three/drei";
 import { Interactive } from "@react-three/xr";
-import { Vector3, Euler, Quaternion, Mesh, Line3 } from "three";
+import {
+  Vector3,
+  Euler,
+  Quaternion,
+  Mesh,
+  MeshStandardMaterial,
+  Group,
+  Line3,
+  Matrix3,
+  Plane,
+  type ColorRepresentation,
+} from "three";
 import { create } from "zustand";
 import { generateUUID } from "three/src/math/MathUtils.js";
+import {
+  analyzePlaneIntersections,
+  areNormalsParallel,
+  describePlaneConfiguration,
+  getPlaneGeometryFromRow,
+  intersectPlaneGeometries,
+  intersectThreePlaneGeometries,
+  type PlaneGeometry,
+} from "./intersections";
 
 const EPSILON = 1e-6;
 
-interface MathObject {
+interface MathObjectBase {
   id: string;
-  type: "plane";
   position: Vector3;
-  rotation: Euler;
   color: string;
   equation: string;
   visible: boolean;
 }
 
+// `coefficients` is the plane as ax + by + cz = d; the transform is derived
+// from it when edited and written back to it when the plane is grabbed.
+interface PlaneObject extends MathObjectBase {
+  type: "plane";
+  rotation: Euler;
+  coefficients: PlaneEqParams;
+}
+
+type VectorOperation = "sum" | "scale" | "cross" | "projection";
+
+// Derived vectors are recomputed from their sources whenever those change.
+interface VectorDerivation {
+  operation: VectorOperation;
+  sources: string[];
+  scalar: number;
+}
+
+// A vector's tail is its `position`; its head is position + components.
+interface VectorObject extends MathObjectBase {
+  type: "vector";
+  name: string;
+  components: Vector3;
+  derivation: VectorDerivation | null;
+}
+
+// A line through `position` along `direction` (not necessarily unit length).
+interface LineObject extends MathObjectBase {
+  type: "line";
+  direction: Vector3;
+}
+
+type MathObject = PlaneObject | VectorObject | LineObject;
+
 interface PlaneEqParams {
   paramA: number;
   paramB: number;
@@ -24,28 +76,179 @@ interface PlaneEqParams {
   paramD: number;
 }
 
+// How a grabbed plane follows the pointer: rigidly, sliding along its normal
+// only, or spinning about its normal only.
+type PlaneGrabConstraint = "free" | "alongNormal" | "aboutNormal";
+
+type LineDefinition = "pointDirection" | "twoPoints";
+
+// `second` is the direction vector or the second point, depending on `definition`.
+interface LineEqParams {
+  definition: LineDefinition;
+  point: [number, number, number];
+  second: [number, number, number];
+}
+
+// A value that can be typed in directly: a cell of the RREF editor's matrix
+// or a coefficient on the plane equation panel.
+type NumericEntryTarget =
+  | { kind: "rrefCell"; row: number; col: number }
+  | { kind: "planeParam"; param: keyof PlaneEqParams };
+
+type NumericEntryMove = "next" | "previous" | "up" | "down" | "left" | "right";
+
+// `text` is what has been typed so far; empty keeps the current value.
+interface NumericEntry {
+  target: NumericEntryTarget;
+  text: string;
+  error: string | null;
+}
+
 type Matrix = number[][];
+type WorkspaceMode =
+  | "random"
+  | "equation"
+  | "line"
+  | "rref"
+  | "transform"
+  | "eigen"
+  | "vector"
+  | "span"
+  | "lessons"
+  | "practice"
+  | "generator";
+
+interface Rational {
+  num: bigint;
+  den: bigint;
+}
+
+type Scalar = number | Rational;
+type ScalarMatrix = Scalar[][];
+type RrefArithmetic = "exact" | "float";
 type RrefModeState = "editing" | "viewing";
 
+type RowOperation =
+  | { kind: "initial" }
+  | { kind: "swap"; rowA: number; rowB: number }
+  | { kind: "scale"; row: number; factor: Scalar }
+  | { kind: "addMultiple"; target: number; source: number; factor: Scalar };
+
+interface RrefStep {
+  matrix: ScalarMatrix;
+  operation: RowOperation;
+  pivot: { row: number; col: number } | null;
+}
+
+// Solution set of a consistent system: particular + sum of t_i * directions[i],
+// with one direction (null-space basis vector) per free variable.
+interface ParametricSolution {
+  particular: Scalar[];
+  freeVariables: number[];
+  directions: Scalar[][];
+}
+
 type RrefAnalysisResult = {
   consistency: "consistent" | "inconsistent";
   solutionType: "none" | "unique" | "infinite_line" | "infinite_plane";
   solutionString: string;
   solutionPoint: Vector3 | null;
+  rank: number;
+  numVars: number;
+  generalSolution: ParametricSolution | null;
 };
 
+type SolutionType = RrefAnalysisResult["solutionType"];
+
+// A student's own row reduction. `steps` starts with the initial matrix and
+// gains one entry per accepted operation; `target` is the (unique) RREF the
+// reference algorithm reaches in `referenceLength` operations.
+interface PracticeSession {
+  arithmetic: RrefArithmetic;
+  exampleIndex: number | null;
+  steps: RrefStep[];
+  target: ScalarMatrix;
+  referenceLength: number;
+  analysis: RrefAnalysisResult;
+  declared: SolutionType | null;
+}
+
+type PracticeSource = "workspace" | "example" | "generated";
+
+type PracticeOperationKind = "swap" | "scale" | "addMultiple";
+
+// The operation being composed on the practice panel. `rowA` is the row that
+// changes (or the first row of a swap); the factor is factorNum / factorDen.
+interface PracticeDraft {
+  kind: PracticeOperationKind;
+  rowA: number;
+  rowB: number;
+  factorNum: number;
+  factorDen: number;
+}
+
+interface PracticeFeedback {
+  tone: "success" | "info" | "error";
+  text: string;
+}
+
+// The undoable part of the workspace: its objects and the RREF input matrix.
+interface WorkspaceSnapshot {
+  mode: WorkspaceMode;
+  objects: MathObject[];
+  selectedObjectId: string | null;
+  selectedVectorIds: string[];
+  initialRrefMatrix: Matrix;
+}
+
+// "open" while a gesture (e.g. a drag) is in progress and nothing has been
+// recorded yet, "recorded" once its first change has been pushed.
+type HistoryTransaction = "none" | "open" | "recorded";
+
 interface LinePlaneStoreState {
   objects: MathObject[];
   selectedObjectId: string | null;
-  mode: "random" | "equation" | "rref";
+  selectedVectorIds: string[];
+  // While measuring, the last two objects or intersections picked; ids of
+  // intersections are those of the scene's intersection lines and points.
+  isMeasuring: boolean;
+  measuredIds: string[];
+  mode: WorkspaceMode;
   planeParams: PlaneEqParams;
+  editSelectedPlane: boolean;
+  grabConstraint: PlaneGrabConstraint;
+  lineParams: LineEqParams;
+  vectorParams: [number, number, number];
+  vectorScalar: number;
 
   initialRrefMatrix: Matrix;
-  rrefHistory: Matrix[];
+  rrefArithmetic: RrefArithmetic;
+  rrefHistory: RrefStep[];
   rrefStepIndex: number;
   rrefState: RrefModeState;
   rrefAnalysis: RrefAnalysisResult | null;
   rrefUniqueSolutionPoint: Vector3 | null;
+  rrefLeastSquaresSolution: Scalar[] | null;
+  rrefShowLeastSquares: boolean;
+  rrefAutoPlay: boolean;
+  rrefPlaybackSpeed: number;
+
+  transformMatrix: Matrix;
+  transformTarget: 0 | 1;
+  eigenSampleVector: [number, number, number];
+  spanVectors: [number, number, number][];
+
+  undoStack: WorkspaceSnapshot[];
+  redoStack: WorkspaceSnapshot[];
+  historyTransaction: HistoryTransaction;
+  sceneError: string | null;
+  activeLesson: number | null;
+  practice: PracticeSession | null;
+  practiceDraft: PracticeDraft;
+  practiceFeedback: PracticeFeedback | null;
+  generatorOutcome: SolutionType;
+  generatorSeed: number;
+  numericEntry: NumericEntry | null;
 
   addPlane: (
     position?: Vector3,
@@ -54,17 +257,95 @@ interface LinePlaneStoreState {
   ) => void;
   removeObject: (id: string) => void;
   updateObjectPosition: (id: string, position: Vector3) => void;
+  updateObjectTransform: (
+    id: string,
+    position: Vector3,
+    rotation: Euler
+  ) => void;
+  setGrabConstraint: (constraint: PlaneGrabConstraint) => void;
   updateEquation: (id: string) => void;
   selectObject: (id: string | null) => void;
+  toggleMeasuring: () => void;
   clearAll: () => void;
-  setMode: (mode: "random" | "equation" | "rref") => void;
+  setMode: (mode: WorkspaceMode) => void;
   setPlaneParam: (param: keyof PlaneEqParams, value: number) => void;
   spawnFromEquation: () => void;
+  setEditSelectedPlane: (enabled: boolean) => void;
+  updatePlaneCoefficient: (
+    id: string,
+    param: keyof PlaneEqParams,
+    value: number
+  ) => void;
+
+  addLine: (point: Vector3, direction: Vector3) => void;
+  setLineDefinition: (definition: LineDefinition) => void;
+  setLineParam: (
+    vector: "point" | "second",
+    index: number,
+    value: number
+  ) => void;
+  spawnLineFromParams: () => void;
+
+  addVector: (components: Vector3, tail?: Vector3) => void;
+  updateVectorHead: (id: string, head: Vector3) => void;
+  setVectorParam: (index: number, value: number) => void;
+  setVectorScalar: (value: number) => void;
+  spawnVectorFromComponents: () => void;
+  addDerivedVector: (operation: VectorOperation) => void;
 
   updateInitialRrefCell: (row: number, col: number, value: number) => void;
+  resizeInitialRrefMatrix: (numRows: number, numVars: number) => void;
+  setRrefArithmetic: (arithmetic: RrefArithmetic) => void;
   calculateAndStartRrefViewing: () => void;
   resetRrefToEditing: () => void;
   stepRrefHistory: (direction: "back" | "forward") => void;
+  toggleRrefLeastSquares: () => void;
+  toggleRrefAutoPlay: () => void;
+  cycleRrefPlaybackSpeed: () => void;
+
+  updateTransformCell: (row: number, col: number, value: number) => void;
+  setTransformTarget: (target: 0 | 1) => void;
+  resetTransformMatrix: () => void;
+  setEigenSampleComponent: (index: number, value: number) => void;
+  setEigenSampleVector: (vector: [number, number, number]) => void;
+
+  setSpanComponent: (vectorIndex: number, index: number, value: number) => void;
+  setSpanVectorCount: (count: number) => void;
+  reduceSpanInRref: () => void;
+
+  undo: () => void;
+  redo: () => void;
+  beginHistoryTransaction: () => void;
+  endHistoryTransaction: () => void;
+
+  exportScene: () => string;
+  importScene: (text: string) => void;
+  restoreAutosave: () => void;
+  dismissSceneError: () => void;
+  reportSceneError: (message: string) => void;
+  getShareHash: () => string;
+  applyShareHash: (hash: string) => void;
+  loadSharedScene: (shared: SharedScene) => void;
+
+  startLesson: (index: number) => void;
+  stepLesson: (direction: "back" | "forward") => void;
+  endLesson: () => void;
+
+  startPractice: (source: PracticeSource) => void;
+  setPracticeDraft: (draft: Partial<PracticeDraft>) => void;
+  applyPracticeOperation: () => void;
+  undoPracticeStep: () => void;
+  showPracticeHint: () => void;
+  declarePracticeSolution: (type: SolutionType) => void;
+
+  setGeneratorOutcome: (outcome: SolutionType) => void;
+  setGeneratorSeed: (seed: number) => void;
+  generateProblem: (target: "rref" | "planes") => void;
+
+  beginNumericEntry: (target: NumericEntryTarget) => void;
+  editNumericEntry: (key: string) => void;
+  commitNumericEntry: (move?: NumericEntryMove) => void;
+  cancelNumericEntry: () => void;
 }
 
 const defaultPlaneParams: PlaneEqParams = {
@@ -74,15 +355,425 @@ const defaultPlaneParams: PlaneEqParams = {
   paramD: 1,
 };
 
+const defaultLineParams: LineEqParams = {
+  definition: "pointDirection",
+  point: [0, 1, 0],
+  second: [1, 0, 1],
+};
+
+const identityMatrix3: Matrix = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
 const sampleMatrix: Matrix = [
   [1, 2, -1, 3],
   [2, 1, 1, 3],
   [1, 1, 1, 2],
 ];
 
+const defaultPracticeDraft: PracticeDraft = {
+  kind: "swap",
+  rowA: 0,
+  rowB: 1,
+  factorNum: 1,
+  factorDen: 1,
+};
+
+const defaultSpanVectors: [number, number, number][] = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [1, 1, 0],
+];
+
+interface Lesson {
+  title: string;
+  explanation: string;
+  scene: SharedScene;
+}
+
+// Curated examples, in teaching order. The RREF ones are the README's test
+// cases.
+const LESSONS: Lesson[] = [
+  {
+    title: "Unique Solution (Simple)",
+    explanation:
+      "x = 1, y = 2, z = 3: three axis-aligned planes meet at the single point (1, 2, 3). The matrix is already in RREF.",
+    scene: {
+      kind: "rref",
+      matrix: [
+        [1, 0, 0, 1],
+        [0, 1, 0, 2],
+        [0, 0, 1, 3],
+      ],
+      arithmetic: "exact",
+      step: null,
+    },
+  },
+  {
+    title: "Unique Solution (More General)",
+    explanation:
+      "Three tilted planes meet at (1, 1, 1). Every row operation moves the planes, but the common point never moves.",
+    scene: {
+      kind: "rref",
+      matrix: [
+        [1, 1, 1, 3],
+        [1, -1, 1, 1],
+        [2, 1, -1, 2],
+      ],
+      arithmetic: "exact",
+      step: null,
+    },
+  },
+  {
+    title: "Infinite Solutions (Line)",
+    explanation:
+      "Row 3 = Row 1 + Row 2, so it adds no information: all three planes share one line, and RREF ends with a zero row.",
+    scene: {
+      kind: "rref",
+      matrix: [
+        [1, 1, 1, 3],
+        [1, -1, 1, 1],
+        [2, 0, 2, 4],
+      ],
+      arithmetic: "exact",
+      step: null,
+    },
+  },
+  {
+    title: "Infinite Solutions (Plane)",
+    explanation:
+      "Every row is a multiple of x + y + z = 2, so the three planes coincide and the solution set is that whole plane.",
+    scene: {
+      kind: "rref",
+      matrix: [
+        [1, 1, 1, 2],
+        [2, 2, 2, 4],
+        [-1, -1, -1, -2],
+      ],
+      arithmetic: "exact",
+      step: null,
+    },
+  },
+  {
+    title: "Inconsistent System",
+    explanation:
+      "x + y + z = 2 and x + y + z = 4 are parallel, so no point lies on both. RREF ends with a row 0 = c.",
+    scene: {
+      kind: "rref",
+      matrix: [
+        [1, 1, 1, 2],
+        [1, 1, 1, 4],
+        [1, -1, 0, 1],
+      ],
+      arithmetic: "exact",
+      step: null,
+    },
+  },
+  {
+    title: "Two Planes Meet in a Line",
+    explanation:
+      "Two non-parallel planes always intersect in a line. Grab one and watch the line follow.",
+    scene: {
+      kind: "planes",
+      planes: [
+        { paramA: 1, paramB: 1, paramC: 1, paramD: 1 },
+        { paramA: 1, paramB: -1, paramC: 0, paramD: 0 },
+      ],
+    },
+  },
+  {
+    title: "Triangular Prism",
+    explanation:
+      "Each pair of planes meets in a line, but the three lines are parallel, so there is no common point.",
+    scene: {
+      kind: "planes",
+      planes: [
+        { paramA: 1, paramB: 0, paramC: 0, paramD: 0 },
+        { paramA: 0, paramB: 1, paramC: 0, paramD: 0 },
+        { paramA: 1, paramB: 1, paramC: 0, paramD: 1 },
+      ],
+    },
+  },
+];
+
+const RREF_ROW_LIMITS = { min: 1, max: 6 };
+const RREF_VAR_LIMITS = { min: 1, max: 6 };
+const RREF_PLANE_COLORS = [
+  "#ffaaaa",
+  "#aaffaa",
+  "#aaaaff",
+  "#ffeeaa",
+  "#ffaaff",
+  "#aaffff",
+];
+
+const HISTORY_LIMIT = 100;
+
+const rrefViewReset: Pick<
+  LinePlaneStoreState,
+  | "rrefState"
+  | "rrefHistory"
+  | "rrefStepIndex"
+  | "rrefAnalysis"
+  | "rrefUniqueSolutionPoint"
+  | "rrefLeastSquaresSolution"
+  | "rrefShowLeastSquares"
+  | "rrefAutoPlay"
+  | "numericEntry"
+> = {
+  rrefState: "editing",
+  rrefHistory: [],
+  rrefStepIndex: -1,
+  rrefAnalysis: null,
+  rrefUniqueSolutionPoint: null,
+  rrefLeastSquaresSolution: null,
+  rrefShowLeastSquares: false,
+  rrefAutoPlay: false,
+  // Entry targets address cells of the matrix being replaced.
+  numericEntry: null,
+};
+
+// Measuring is switched on and off from the main control panel, so it stops
+// whenever the workspace leaves it.
+const measuringReset: Pick<LinePlaneStoreState, "isMeasuring" | "measuredIds"> =
+  {
+    isMeasuring: false,
+    measuredIds: [],
+  };
+
+const RREF_PLAYBACK_SPEEDS = [0.5, 1, 2];
+// At 1× speed: how long the planes take to move to the next step, and how long
+// auto-play waits on each step (including that move) before advancing.
+const RREF_TWEEN_SECONDS = 0.8;
+const RREF_AUTOPLAY_STEP_SECONDS = 2;
+
+// Snapshots share structure with the live state; actions always replace
+// objects and matrices rather than mutating them, so no deep copy is needed.
+const takeSnapshot = (state: LinePlaneStoreState): WorkspaceSnapshot => ({
+  mode: state.mode,
+  objects: state.objects,
+  selectedObjectId: state.selectedObjectId,
+  selectedVectorIds: state.selectedVectorIds,
+  initialRrefMatrix: state.initialRrefMatrix,
+});
+
+// State update that pushes the workspace as it is before a change onto the
+// undo stack. Inside a transaction only the first change is recorded, so a
+// whole drag undoes in one step.
+const recordHistory = (
+  state: LinePlaneStoreState
+): Partial<LinePlaneStoreState> => {
+  if (state.historyTransaction === "recorded") return {};
+  return {
+    undoStack: [...state.undoStack, takeSnapshot(state)].slice(-HISTORY_LIMIT),
+    redoStack: [],
+    historyTransaction:
+      state.historyTransaction === "open" ? "recorded" : "none",
+  };
+};
+
+// Only switches mode when crossing into or out of RREF, since that is the
+// switch that replaces the objects; other mode changes aren't undo steps.
+const restoreSnapshot = (
+  state: LinePlaneStoreState,
+  snapshot: WorkspaceSnapshot
+): Partial<LinePlaneStoreState> => {
+  const switchesWorkspace =
+    (snapshot.mode === "rref") !== (state.mode === "rref");
+  const matrixChanged = snapshot.initialRrefMatrix !== state.initialRrefMatrix;
+  return {
+    objects: snapshot.objects,
+    selectedObjectId: snapshot.selectedObjectId,
+    selectedVectorIds: snapshot.selectedVectorIds,
+    initialRrefMatrix: snapshot.initialRrefMatrix,
+    ...(switchesWorkspace ? { mode: snapshot.mode } : {}),
+    ...(switchesWorkspace || matrixChanged ? rrefViewReset : {}),
+  };
+};
+
 const deepCopyMatrix = (matrix: Matrix): Matrix =>
   matrix.map((row) => [...row]);
 
+// Grows or shrinks an augmented matrix, keeping the constants column last.
+const resizeAugmentedMatrix = (
+  matrix: Matrix,
+  numRows: number,
+  numVars: number
+): Matrix => {
+  const currentVars = Math.max(0, (matrix[0]?.length || 1) - 1);
+  return Array.from({ length: numRows }, (_, r) => {
+    const row = matrix[r] ?? [];
+    const coefficients = Array.from({ length: numVars }, (_, c) =>
+      c < currentVars ? (row[c] ?? 0) : 0
+    );
+    return [...coefficients, row[currentVars] ?? 0];
+  });
+};
+
+const bigAbs = (n: bigint) => (n < 0n ? -n : n);
+
+const bigGcd = (a: bigint, b: bigint): bigint => {
+  let x = bigAbs(a);
+  let y = bigAbs(b);
+  while (y !== 0n) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+};
+
+const makeRational = (num: bigint, den: bigint): Rational => {
+  if (den === 0n) throw new RangeError("Rational with zero denominator.");
+  if (den < 0n) {
+    num = -num;
+    den = -den;
+  }
+  const g = bigGcd(num, den);
+  return g > 1n ? { num: num / g, den: den / g } : { num, den };
+};
+
+// Recovers small-denominator fractions (0.5, 1/3 typed as 0.333...) from a
+// float via continued fractions; anything else keeps its closest convergent.
+const rationalFromNumber = (value: number): Rational => {
+  if (!Number.isFinite(value)) {
+    throw new RangeError(`Cannot represent ${value} as a fraction.`);
+  }
+  if (Number.isInteger(value)) return { num: BigInt(value), den: 1n };
+  const maxDen = 1e6;
+  const tolerance = 1e-9 * Math.max(1, Math.abs(value));
+  let [h0, h1] = [0, 1];
+  let [k0, k1] = [1, 0];
+  let x = value;
+  for (let i = 0; i < 64; i++) {
+    const a = Math.floor(x);
+    [h0, h1] = [h1, a * h1 + h0];
+    [k0, k1] = [k1, a * k1 + k0];
+    if (Math.abs(value - h1 / k1) < tolerance || k1 > maxDen) break;
+    const frac = x - a;
+    if (frac === 0) break;
+    x = 1 / frac;
+  }
+  if (k1 > maxDen) {
+    [h1, k1] = [h0, k0];
+  }
+  return makeRational(BigInt(h1), BigInt(k1));
+};
+
+const isRational = (value: Scalar): value is Rational =>
+  typeof value !== "number";
+
+const toRational = (value: Scalar): Rational =>
+  isRational(value) ? value : rationalFromNumber(value);
+
+const scalarToNumber = (value: Scalar): number =>
+  isRational(value) ? Number(value.num) / Number(value.den) : value;
+
+const formatScalar = (value: Scalar): string => {
+  if (isRational(value)) {
+    return value.den === 1n ? `${value.num}` : `${value.num}/${value.den}`;
+  }
+  if (Math.abs(value) < EPSILON) return "0";
+  return `${Number(value.toFixed(2))}`;
+};
+
+interface ScalarField {
+  fromNumber: (value: number) => Scalar;
+  add: (a: Scalar, b: Scalar) => Scalar;
+  sub: (a: Scalar, b: Scalar) => Scalar;
+  mul: (a: Scalar, b: Scalar) => Scalar;
+  div: (a: Scalar, b: Scalar) => Scalar;
+  isZero: (value: Scalar) => boolean;
+  isOne: (value: Scalar) => boolean;
+  // Snaps round-off noise to zero; a no-op for exact values.
+  clean: (value: Scalar) => Scalar;
+}
+
+const floatField: ScalarField = {
+  fromNumber: (value) => value,
+  add: (a, b) => scalarToNumber(a) + scalarToNumber(b),
+  sub: (a, b) => scalarToNumber(a) - scalarToNumber(b),
+  mul: (a, b) => scalarToNumber(a) * scalarToNumber(b),
+  div: (a, b) => scalarToNumber(a) / scalarToNumber(b),
+  isZero: (value) => Math.abs(scalarToNumber(value)) < EPSILON,
+  isOne: (value) => Math.abs(scalarToNumber(value) - 1.0) < EPSILON,
+  clean: (value) =>
+    Math.abs(scalarToNumber(value)) < EPSILON ? 0 : scalarToNumber(value),
+};
+
+const exactField: ScalarField = {
+  fromNumber: rationalFromNumber,
+  add: (a, b) => {
+    const x = toRational(a);
+    const y = toRational(b);
+    return makeRational(x.num * y.den + y.num * x.den, x.den * y.den);
+  },
+  sub: (a, b) => {
+    const x = toRational(a);
+    const y = toRational(b);
+    return makeRational(x.num * y.den - y.num * x.den, x.den * y.den);
+  },
+  mul: (a, b) => {
+    const x = toRational(a);
+    const y = toRational(b);
+    return makeRational(x.num * y.num, x.den * y.den);
+  },
+  div: (a, b) => {
+    const x = toRational(a);
+    const y = toRational(b);
+    return makeRational(x.num * y.den, x.den * y.num);
+  },
+  isZero: (value) => toRational(value).num === 0n,
+  isOne: (value) => {
+    const x = toRational(value);
+    return x.num === 1n && x.den === 1n;
+  },
+  clean: (value) => toRational(value),
+};
+
+const getScalarField = (arithmetic: RrefArithmetic): ScalarField =>
+  arithmetic === "exact" ? exactField : floatField;
+
+const negateScalar = (value: Scalar): Scalar =>
+  isRational(value) ? { num: -value.num, den: value.den } : -value;
+
+const formatRowOperation = (operation: RowOperation): string => {
+  const coefficient = (factor: Scalar) => {
+    const text = formatScalar(factor);
+    return text.includes("/") ? `(${text})` : text;
+  };
+  switch (operation.kind) {
+    case "initial":
+      return "Initial matrix";
+    case "swap":
+      return `R${operation.rowA + 1} ↔ R${operation.rowB + 1}`;
+    case "scale":
+      return `R${operation.row + 1} ← ${coefficient(operation.factor)}·R${operation.row + 1}`;
+    case "addMultiple": {
+      const negative = scalarToNumber(operation.factor) < 0;
+      const magnitude = negative
+        ? negateScalar(operation.factor)
+        : operation.factor;
+      const multiple =
+        formatScalar(magnitude) === "1" ? "" : `${coefficient(magnitude)}·`;
+      return `R${operation.target + 1} ← R${operation.target + 1} ${negative ? "−" : "+"} ${multiple}R${operation.source + 1}`;
+    }
+  }
+};
+
+const getAffectedRows = (operation: RowOperation): number[] => {
+  switch (operation.kind) {
+    case "initial":
+      return [];
+    case "swap":
+      return [operation.rowA, operation.rowB];
+    case "scale":
+      return [operation.row];
+    case "addMultiple":
+      return [operation.target];
+  }
+};
+
 const getPlaneTransform = (
   params: PlaneEqParams
 ): { position: Vector3; rotation: Euler } => {
@@ -110,6 +801,63 @@ const getPlaneTransform = (
   return { position, rotation };
 };
 
+// A plane whose coefficients have a zero normal keeps its last transform but
+// describes no plane, so it isn't drawn or intersected until edited back.
+const isShownPlane = (object: MathObject): object is PlaneObject =>
+  object.visible &&
+  object.type === "plane" &&
+  new Vector3(
+    object.coefficients.paramA,
+    object.coefficients.paramB,
+    object.coefficients.paramC
+  ).lengthSq() >= EPSILON;
+
+const formatPlaneEquation = (params: PlaneEqParams): string => {
+  const formatNum = (n: number) => n.toFixed(1).replace(".0", "");
+  return `${formatNum(params.paramA)}x + ${formatNum(params.paramB)}y + ${formatNum(params.paramC)}z = ${formatNum(params.paramD)}`;
+};
+
+// Equation label for a plane placed or moved in space: two decimals, with
+// zero terms dropped.
+const formatMeasuredPlaneEquation = (coefficients: PlaneEqParams): string => {
+  const a = coefficients.paramA;
+  const b = coefficients.paramB;
+  const c = coefficients.paramC;
+  const d_rhs = coefficients.paramD;
+
+  const formatCoeff = (val: number, axis: string) => {
+    if (Math.abs(val) < 0.01) return "";
+    const sign = val >= 0 ? "+ " : "- ";
+    const num = Math.abs(val).toFixed(2);
+    const numStr = num === "1.00" && axis ? "" : num;
+    return `${sign}${numStr}${axis} `;
+  };
+  const formatD = (val: number) => val.toFixed(2);
+
+  let eq =
+    `${formatCoeff(a, "x")}${formatCoeff(b, "y")}${formatCoeff(c, "z")}`.trim();
+  if (eq.startsWith("+ ")) eq = eq.substring(2);
+  if (eq === "") eq = "0";
+
+  return `${eq} = ${formatD(d_rhs)}`;
+};
+
+// Coefficients of the plane through `position` with the given orientation,
+// with |(a, b, c)| = scale.
+const planeCoefficientsFromTransform = (
+  position: Vector3,
+  rotation: Euler,
+  scale = 1
+): PlaneEqParams => {
+  const normal = new Vector3(0, 0, 1).applyEuler(rotation).normalize();
+  return {
+    paramA: normal.x * scale,
+    paramB: normal.y * scale,
+    paramC: normal.z * scale,
+    paramD: normal.dot(position) * scale,
+  };
+};
+
 const getPlaneTransformFromRow = (
   row: number[]
 ): { position: Vector3; rotation: Euler; isValid: boolean } | null => {
@@ -121,12 +869,13 @@ const getPlaneTransformFromRow = (
   const normal = new Vector3(a, b, c);
   const normalLenSq = normal.lengthSq();
 
+  // 0 = 0 (every point) and 0 = c (no point) aren't planes; the scene marks
+  // them separately.
   if (normalLenSq < EPSILON) {
-    const isValid = Math.abs(d_rhs) < EPSILON;
     return {
       position: new Vector3(0, -999, 0),
       rotation: new Euler(),
-      isValid: isValid,
+      isValid: false,
     };
   }
 
@@ -141,13 +890,47 @@ const getPlaneTransformFromRow = (
   return { position, rotation, isValid: true };
 };
 
-const calculateRrefSteps = (initialMatrix: Matrix): Matrix[] => {
-  const history: Matrix[] = [deepCopyMatrix(initialMatrix)];
-  let matrix = deepCopyMatrix(initialMatrix);
+const findLeadingOneColumn = (
+  row: Scalar[],
+  numVars: number,
+  field: ScalarField
+): number => {
+  for (let j = 0; j < numVars; j++) {
+    if (field.isOne(row[j])) return j;
+    if (!field.isZero(row[j])) return -1;
+  }
+  return -1;
+};
+
+// Only systems in x, y, z have a plane per row that can be drawn in 3D.
+const isDrawableSystem = (matrix: ScalarMatrix): boolean =>
+  matrix.length > 0 && matrix[0].length === 4;
+
+// A row reading 0x + 0y + ... = c with c ≠ 0.
+const isContradictionRow = (row: Scalar[], field: ScalarField): boolean =>
+  row.length > 1 &&
+  row.slice(0, -1).every((value) => field.isZero(value)) &&
+  !field.isZero(row[row.length - 1]);
+
+const calculateRrefSteps = (
+  initialMatrix: ScalarMatrix,
+  arithmetic: RrefArithmetic = "exact"
+): RrefStep[] => {
+  const field = getScalarField(arithmetic);
+  const matrix: ScalarMatrix = initialMatrix.map((row) => row.map(field.clean));
+  const history: RrefStep[] = [];
+  const record = (operation: RowOperation, row: number, col: number) =>
+    history.push({
+      matrix: matrix.map((r) => [...r]),
+      operation,
+      pivot: operation.kind === "initial" ? null : { row, col },
+    });
+  record({ kind: "initial" }, -1, -1);
   const numRows = matrix.length;
   if (numRows === 0) return history;
   const numCols = matrix[0]?.length || 0;
   if (numCols === 0) return history;
+  const magnitude = (value: Scalar) => Math.abs(scalarToNumber(value));
   let pivotRow = 0;
 
   for (
@@ -157,36 +940,55 @@ const calculateRrefSteps = (initialMatrix: Matrix): Matrix[] => {
   ) {
     let maxRow = pivotRow;
     for (let k = pivotRow + 1; k < numRows; k++) {
-      if (Math.abs(matrix[k][pivotCol]) > Math.abs(matrix[maxRow][pivotCol])) {
+      if (
+        magnitude(matrix[k][pivotCol]) > magnitude(matrix[maxRow][pivotCol])
+      ) {
         maxRow = k;
       }
     }
-    if (Math.abs(matrix[maxRow][pivotCol]) < EPSILON) {
+    if (field.isZero(matrix[maxRow][pivotCol])) {
       continue;
     }
     if (maxRow !== pivotRow) {
       [matrix[pivotRow], matrix[maxRow]] = [matrix[maxRow], matrix[pivotRow]];
-      history.push(deepCopyMatrix(matrix));
+      record(
+        { kind: "swap", rowA: pivotRow, rowB: maxRow },
+        pivotRow,
+        pivotCol
+      );
     }
     const pivotValue = matrix[pivotRow][pivotCol];
-    if (Math.abs(pivotValue - 1.0) > EPSILON) {
-      matrix[pivotRow] = matrix[pivotRow].map((el) => el / pivotValue);
-      matrix[pivotRow] = matrix[pivotRow].map((val) =>
-        Math.abs(val) < EPSILON ? 0 : val
+    if (!field.isOne(pivotValue)) {
+      matrix[pivotRow] = matrix[pivotRow].map((el) =>
+        field.clean(field.div(el, pivotValue))
+      );
+      record(
+        {
+          kind: "scale",
+          row: pivotRow,
+          factor: field.div(field.fromNumber(1), pivotValue),
+        },
+        pivotRow,
+        pivotCol
       );
-      history.push(deepCopyMatrix(matrix));
     }
     for (let i = 0; i < numRows; i++) {
       if (i !== pivotRow) {
         const factor = matrix[i][pivotCol];
-        if (Math.abs(factor) > EPSILON) {
-          matrix[i] = matrix[i].map(
-            (el, j) => el - factor * matrix[pivotRow][j]
+        if (!field.isZero(factor)) {
+          matrix[i] = matrix[i].map((el, j) =>
+            field.clean(field.sub(el, field.mul(factor, matrix[pivotRow][j])))
           );
-          matrix[i] = matrix[i].map((val) =>
-            Math.abs(val) < EPSILON ? 0 : val
+          record(
+            {
+              kind: "addMultiple",
+              target: i,
+              source: pivotRow,
+              factor: negateScalar(factor),
+            },
+            pivotRow,
+            pivotCol
           );
-          history.push(deepCopyMatrix(matrix));
         }
       }
     }
@@ -194,33 +996,24 @@ const calculateRrefSteps = (initialMatrix: Matrix): Matrix[] => {
   }
 
   for (let i = numRows - 1; i >= 0; i--) {
-    let pivotCol = -1;
-    for (let j = 0; j < numCols - 1; j++) {
-      if (Math.abs(matrix[i][j] - 1.0) < EPSILON) {
-        let isLeading = true;
-        for (let k = 0; k < j; k++) {
-          if (Math.abs(matrix[i][k]) > EPSILON) {
-            isLeading = false;
-            break;
-          }
-        }
-        if (isLeading) {
-          pivotCol = j;
-          break;
-        }
-      } else if (Math.abs(matrix[i][j]) > EPSILON) {
-        break;
-      }
-    }
+    const pivotCol = findLeadingOneColumn(matrix[i], numCols - 1, field);
     if (pivotCol !== -1) {
       for (let k = i - 1; k >= 0; k--) {
         const factor = matrix[k][pivotCol];
-        if (Math.abs(factor) > EPSILON) {
-          matrix[k] = matrix[k].map((el, j) => el - factor * matrix[i][j]);
-          matrix[k] = matrix[k].map((val) =>
-            Math.abs(val) < EPSILON ? 0 : val
+        if (!field.isZero(factor)) {
+          matrix[k] = matrix[k].map((el, j) =>
+            field.clean(field.sub(el, field.mul(factor, matrix[i][j])))
+          );
+          record(
+            {
+              kind: "addMultiple",
+              target: k,
+              source: i,
+              factor: negateScalar(factor),
+            },
+            i,
+            pivotCol
           );
-          history.push(deepCopyMatrix(matrix));
         }
       }
     }
@@ -228,7 +1021,74 @@ const calculateRrefSteps = (initialMatrix: Matrix): Matrix[] => {
   return history;
 };
 
-const analyzeRref = (rrefMatrix: Matrix): RrefAnalysisResult => {
+const getVariableNames = (numVars: number): string[] =>
+  numVars <= 3
+    ? ["x", "y", "z"].slice(0, numVars)
+    : Array.from({ length: numVars }, (_, i) => `x${i + 1}`);
+
+const formatSolutionValue = (value: Scalar, arithmetic: RrefArithmetic) =>
+  arithmetic === "exact"
+    ? formatScalar(value)
+    : scalarToNumber(value).toFixed(2);
+
+// Expects a consistent matrix in RREF: pivot variables are read off their
+// rows, free variables are set to 0 for the particular solution and to 1 (one
+// at a time) for the null-space basis.
+const extractGeneralSolution = (
+  rrefMatrix: ScalarMatrix,
+  numVars: number,
+  field: ScalarField
+): ParametricSolution => {
+  const pivots: { row: number; col: number }[] = [];
+  rrefMatrix.forEach((row, r) => {
+    const col = findLeadingOneColumn(row, numVars, field);
+    if (col >= 0) pivots.push({ row: r, col });
+  });
+  const pivotCols = new Set(pivots.map((p) => p.col));
+  const zeros = () =>
+    Array.from({ length: numVars }, () => field.fromNumber(0));
+
+  const particular = zeros();
+  pivots.forEach(({ row, col }) => {
+    particular[col] = rrefMatrix[row][numVars];
+  });
+
+  const freeVariables = Array.from({ length: numVars }, (_, c) => c).filter(
+    (c) => !pivotCols.has(c)
+  );
+  const directions = freeVariables.map((free) => {
+    const direction = zeros();
+    direction[free] = field.fromNumber(1);
+    pivots.forEach(({ row, col }) => {
+      direction[col] = field.clean(negateScalar(rrefMatrix[row][free]));
+    });
+    return direction;
+  });
+  return { particular, freeVariables, directions };
+};
+
+const formatParametricSolution = (
+  solution: ParametricSolution,
+  arithmetic: RrefArithmetic
+): string => {
+  const names = getVariableNames(solution.particular.length);
+  const params =
+    solution.directions.length === 1 ? ["t"] : ["s", "t", "u", "v", "w", "r"];
+  const tuple = (values: Scalar[]) =>
+    `(${values.map((v) => formatSolutionValue(v, arithmetic)).join(", ")})`;
+  const terms = solution.directions.map(
+    (direction, i) => ` + ${params[i] ?? `t${i + 1}`}${tuple(direction)}`
+  );
+  const freeNames = solution.freeVariables.map((c) => names[c]).join(", ");
+  const freeSuffix = freeNames ? `  [free: ${freeNames}]` : "";
+  return `(${names.join(", ")}) = ${tuple(solution.particular)}${terms.join("")}${freeSuffix}`;
+};
+
+const analyzeRref = (
+  rrefMatrix: ScalarMatrix,
+  arithmetic: RrefArithmetic = "exact"
+): RrefAnalysisResult => {
+  const field = getScalarField(arithmetic);
   const numRows = rrefMatrix.length;
   if (numRows === 0)
     return {
@@ -236,6 +1096,9 @@ const analyzeRref = (rrefMatrix: Matrix): RrefAnalysisResult => {
       solutionType: "none",
       solutionString: "No equations.",
       solutionPoint: null,
+      rank: 0,
+      numVars: 0,
+      generalSolution: null,
     };
   const numCols = rrefMatrix[0]?.length || 0;
   if (numCols < 2)
@@ -244,6 +1107,9 @@ const analyzeRref = (rrefMatrix: Matrix): RrefAnalysisResult => {
       solutionType: "none",
       solutionString: "Invalid matrix shape.",
       solutionPoint: null,
+      rank: 0,
+      numVars: 0,
+      generalSolution: null,
     };
   const numVars = numCols - 1;
 
@@ -253,7 +1119,7 @@ const analyzeRref = (rrefMatrix: Matrix): RrefAnalysisResult => {
   for (let r = 0; r < numRows; r++) {
     let pivotFoundInRow = false;
     for (let c = 0; c < numCols; c++) {
-      if (Math.abs(rrefMatrix[r][c]) > EPSILON) {
+      if (!field.isZero(rrefMatrix[r][c])) {
         if (c < numVars) {
           pivotFoundInRow = true;
         } else {
@@ -272,56 +1138,29 @@ const analyzeRref = (rrefMatrix: Matrix): RrefAnalysisResult => {
       solutionType: "none",
       solutionString: "Inconsistent system (no solution).",
       solutionPoint: null,
+      rank,
+      numVars,
+      generalSolution: null,
     };
   }
 
+  const generalSolution = extractGeneralSolution(rrefMatrix, numVars, field);
+
   if (rank === numVars) {
-    let solPoint = new Vector3();
-    let solStr = "Unique Solution: (Error)";
-    try {
-      let x_val = 0,
-        y_val = 0,
-        z_val = 0;
-      for (let r = 0; r < rank; r++) {
-        let pivotCol = -1;
-        for (let c = 0; c < numVars; c++) {
-          if (Math.abs(rrefMatrix[r][c] - 1.0) < EPSILON) {
-            let isLeading = true;
-            for (let k = 0; k < c; k++) {
-              if (Math.abs(rrefMatrix[r][k]) > EPSILON) {
-                isLeading = false;
-                break;
-              }
-            }
-            if (isLeading) {
-              pivotCol = c;
-              break;
-            }
-          } else if (Math.abs(rrefMatrix[r][c]) > EPSILON) {
-            break;
-          }
-        }
-        if (pivotCol === 0) x_val = rrefMatrix[r][numVars];
-        else if (pivotCol === 1) y_val = rrefMatrix[r][numVars];
-        else if (pivotCol === 2) z_val = rrefMatrix[r][numVars];
-      }
-      solPoint.set(x_val, y_val, z_val);
-      solStr = `Unique Solution: (${solPoint.x.toFixed(2)}, ${solPoint.y.toFixed(2)}, ${solPoint.z.toFixed(2)})`;
-      return {
-        consistency: "consistent",
-        solutionType: "unique",
-        solutionString: solStr,
-        solutionPoint: solPoint,
-      };
-    } catch (e) {
-      console.error("Error extracting unique solution:", e);
-      return {
-        consistency: "consistent",
-        solutionType: "unique",
-        solutionString: "Unique Solution (Error parsing values)",
-        solutionPoint: null,
-      };
-    }
+    const values = generalSolution.particular;
+    const solPoint =
+      numVars === 3 ? new Vector3(...values.map(scalarToNumber)) : null;
+    const formatValue = (value: Scalar) =>
+      formatSolutionValue(value, arithmetic);
+    return {
+      consistency: "consistent",
+      solutionType: "unique",
+      solutionString: `Unique Solution: (${values.map(formatValue).join(", ")})`,
+      solutionPoint: solPoint,
+      rank,
+      numVars,
+      generalSolution,
+    };
   } else {
     const freeVars = numVars - rank;
     let type: RrefAnalysisResult["solutionType"] = "infinite_line";
@@ -345,175 +1184,1373 @@ const analyzeRref = (rrefMatrix: Matrix): RrefAnalysisResult => {
       solutionType: type,
       solutionString: typeStr,
       solutionPoint: null,
+      rank,
+      numVars,
+      generalSolution,
     };
   }
 };
 
-export const useLinePlaneStore = create<LinePlaneStoreState>((set, get) => ({
-  objects: [],
-  selectedObjectId: null,
-  mode: "random",
-  planeParams: { ...defaultPlaneParams },
-  initialRrefMatrix: deepCopyMatrix(sampleMatrix),
-  rrefHistory: [],
-  rrefStepIndex: -1,
-  rrefState: "editing",
-  rrefAnalysis: null,
-  rrefUniqueSolutionPoint: null,
+const PRACTICE_EXAMPLES: Matrix[] = LESSONS.flatMap((lesson) =>
+  lesson.scene.kind === "rref" ? [lesson.scene.matrix] : []
+);
+const PRACTICE_FACTOR_LIMIT = 12;
 
-  addPlane: (position?: Vector3, rotation?: Euler, params?: PlaneEqParams) => {
-    let pos = position;
-    let rot = rotation;
-    let eq = "";
+const GENERATOR_VALUE_LIMIT = 10;
+const GENERATOR_SEED_LIMIT = 99999;
+const GENERATOR_ATTEMPTS = 200;
 
-    if (params) {
-      const transform = getPlaneTransform(params);
-      pos = transform.position;
-      rot = transform.rotation;
+const GENERATOR_OUTCOME_LABELS: Record<SolutionType, string> = {
+  unique: "Unique Point",
+  infinite_line: "Line",
+  infinite_plane: "Plane",
+  none: "No Solution",
+};
 
-      const formatNum = (n: number) => n.toFixed(1).replace(".0", "");
-      eq = `${formatNum(params.paramA)}x + ${formatNum(params.paramB)}y + ${formatNum(params.paramC)}z = ${formatNum(params.paramD)}`;
-    } else {
-      pos ||= new Vector3(
-        Math.random() * 2 - 1,
-        Math.random() * 1.5,
-        Math.random() * 2 - 1
-      );
-      rot ||= new Euler(
-        Math.random() * Math.PI * 2,
-        Math.random() * Math.PI * 2,
-        Math.random() * Math.PI * 2
-      );
+// Small seeded PRNG (mulberry32) so a generated problem can be reproduced
+// from its seed.
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Builds a 3×3 integer system around a solution point in [0, 3]³, so its
+// planes sit near the positive octant like the README examples. Dependent
+// rows are integer combinations of the others; an inconsistent system shifts
+// the right-hand side of one of them. Candidates are checked with the RREF
+// analysis and regenerated until they have the requested outcome; null if
+// no attempt does.
+const generateSystem = (outcome: SolutionType, seed: number): Matrix | null => {
+  const random = createRandom(seed);
+  const int = (min: number, max: number) =>
+    min + Math.floor(random() * (max - min + 1));
+  const nonZero = (limit: number) => int(1, limit) * (random() < 0.5 ? -1 : 1);
+  const randomCoefficients = () => [int(-2, 3), int(-2, 3), int(-2, 3)];
+  const combine = (a: number[], b: number[], ka: number, kb: number) =>
+    a.map((value, i) => ka * value + kb * b[i]);
+  for (let attempt = 0; attempt < GENERATOR_ATTEMPTS; attempt++) {
+    const point = [int(0, 3), int(0, 3), int(0, 3)];
+    const withRhs = (coefficients: number[]) => [
+      ...coefficients,
+      coefficients.reduce((sum, c, i) => sum + c * point[i], 0),
+    ];
+    const first = randomCoefficients();
+    const second = randomCoefficients();
+    let rows: number[][];
+    switch (outcome) {
+      case "unique":
+        rows = [first, second, randomCoefficients()].map(withRhs);
+        break;
+      case "infinite_plane":
+        rows = [1, nonZero(2), nonZero(2)].map((k) =>
+          withRhs(first.map((c) => k * c))
+        );
+        break;
+      case "infinite_line":
+      case "none":
+        rows = [
+          first,
+          second,
+          combine(first, second, nonZero(2), nonZero(2)),
+        ].map(withRhs);
+        if (outcome === "none") rows[2][3] += nonZero(3);
+        break;
+    }
+    for (let i = rows.length - 1; i > 0; i--) {
+      const j = int(0, i);
+      [rows[i], rows[j]] = [rows[j], rows[i]];
     }
+    // A row with no coefficients isn't a plane (and 0 = 0 passes as a plane
+    // of solutions in the analysis), so those candidates are redrawn too.
+    if (
+      rows.some(
+        (row) =>
+          row.some((v) => Math.abs(v) > GENERATOR_VALUE_LIMIT) ||
+          row.slice(0, 3).every((v) => v === 0)
+      )
+    )
+      continue;
+    const reduced = calculateRrefSteps(rows);
+    if (
+      analyzeRref(reduced[reduced.length - 1].matrix).solutionType === outcome
+    )
+      return rows;
+  }
+  return null;
+};
 
-    const id = generateUUID();
-    const plane: MathObject = {
-      id,
-      type: "plane",
-      position: pos.clone(),
-      rotation: rot.clone(),
-      color: `hsl(${Math.floor(Math.random() * 360)}, 70%, 50%)`,
-      equation: eq,
-      visible: true,
-    };
-    set((state) => ({
-      objects: [...state.objects, plane],
-      selectedObjectId: id,
-    }));
+// Generated rows are integers, so unlike formatMeasuredPlaneEquation this
+// prints no decimals; zero terms are dropped and unit coefficients left out.
+const formatGeneratedRow = ([a, b, c, d]: number[]): string => {
+  const terms = [a, b, c].flatMap((value, i) =>
+    value === 0
+      ? []
+      : [
+          `${value < 0 ? "- " : "+ "}${Math.abs(value) === 1 ? "" : Math.abs(value)}${"xyz"[i]}`,
+        ]
+  );
+  const lhs = terms.join(" ").replace(/^\+ /, "").replace(/^- /, "-");
+  return `${lhs || "0"} = ${d}`;
+};
+
+const describeGeneratorFailure = (outcome: SolutionType, seed: number) =>
+  `Could not generate a "${GENERATOR_OUTCOME_LABELS[outcome]}" system from seed ${seed}; try another seed.`;
+
+const createPracticeSession = (
+  matrix: Matrix,
+  arithmetic: RrefArithmetic,
+  exampleIndex: number | null
+): PracticeSession => {
+  const reference = calculateRrefSteps(matrix, arithmetic);
+  const target = reference[reference.length - 1].matrix;
+  return {
+    arithmetic,
+    exampleIndex,
+    steps: [reference[0]],
+    target,
+    referenceLength: reference.length - 1,
+    analysis: analyzeRref(target, arithmetic),
+    declared: null,
+  };
+};
+
+const matricesEqual = (
+  a: ScalarMatrix,
+  b: ScalarMatrix,
+  field: ScalarField
+): boolean =>
+  a.length === b.length &&
+  a.every(
+    (row, r) =>
+      row.length === b[r].length &&
+      row.every((value, c) => field.isZero(field.sub(value, b[r][c])))
+  );
+
+// Builds the drafted operation, or explains why it isn't an elementary row
+// operation (one that is reversible and so keeps the solution set).
+const rowOperationFromDraft = (
+  draft: PracticeDraft,
+  field: ScalarField
+): { operation: RowOperation } | { error: string } => {
+  const factor = field.div(
+    field.fromNumber(draft.factorNum),
+    field.fromNumber(draft.factorDen)
+  );
+  switch (draft.kind) {
+    case "swap":
+      return draft.rowA === draft.rowB
+        ? { error: "Pick two different rows to swap." }
+        : { operation: { kind: "swap", rowA: draft.rowA, rowB: draft.rowB } };
+    case "scale":
+      return field.isZero(factor)
+        ? {
+            error:
+              "Scaling by 0 erases the equation and can't be undone, so it isn't a row operation.",
+          }
+        : { operation: { kind: "scale", row: draft.rowA, factor } };
+    case "addMultiple":
+      if (draft.rowA === draft.rowB)
+        return {
+          error:
+            "Add a multiple of a different row; adding a row to itself just rescales it.",
+        };
+      return field.isZero(factor)
+        ? { error: "Adding 0 times a row changes nothing." }
+        : {
+            operation: {
+              kind: "addMultiple",
+              target: draft.rowA,
+              source: draft.rowB,
+              factor,
+            },
+          };
+  }
+};
+
+const applyRowOperation = (
+  matrix: ScalarMatrix,
+  operation: RowOperation,
+  field: ScalarField
+): ScalarMatrix => {
+  const result = matrix.map((row) => [...row]);
+  switch (operation.kind) {
+    case "initial":
+      break;
+    case "swap":
+      [result[operation.rowA], result[operation.rowB]] = [
+        result[operation.rowB],
+        result[operation.rowA],
+      ];
+      break;
+    case "scale":
+      result[operation.row] = result[operation.row].map((value) =>
+        field.clean(field.mul(value, operation.factor))
+      );
+      break;
+    case "addMultiple":
+      result[operation.target] = result[operation.target].map((value, j) =>
+        field.clean(
+          field.add(
+            value,
+            field.mul(operation.factor, matrix[operation.source][j])
+          )
+        )
+      );
+      break;
+  }
+  return result;
+};
+
+const DERIVED_VECTOR_COLORS: Record<VectorOperation, string> = {
+  sum: "#ffd54f",
+  scale: "#4fc3f7",
+  cross: "#ff7043",
+  projection: "#ba68c8",
+};
+
+const formatComponents = (v: Vector3): string =>
+  `(${[v.x, v.y, v.z].map((n) => formatScalar(n)).join(", ")})`;
+
+const formatLineEquation = (point: Vector3, direction: Vector3): string =>
+  `(x, y, z) = ${formatComponents(point)} + t${formatComponents(direction)}`;
+
+const nextVectorName = (objects: MathObject[]): string => {
+  const names = new Set(
+    objects.flatMap((obj) => (obj.type === "vector" ? [obj.name] : []))
+  );
+  let index = 1;
+  while (names.has(`v${index}`)) index++;
+  return `v${index}`;
+};
+
+const getDerivedVectorName = (
+  derivation: VectorDerivation,
+  sources: VectorObject[]
+): string => {
+  const [a, b] = sources.map((source) => source.name);
+  switch (derivation.operation) {
+    case "sum":
+      return `${a}+${b}`;
+    case "scale":
+      return `${formatScalar(derivation.scalar)}·${a}`;
+    case "cross":
+      return `${a}×${b}`;
+    case "projection":
+      return `proj(${a}→${b})`;
+  }
+};
+
+const computeDerivedVector = (
+  derivation: VectorDerivation,
+  sources: VectorObject[],
+  name: string
+): Pick<VectorObject, "position" | "components" | "equation"> => {
+  const [a, b] = sources;
+  switch (derivation.operation) {
+    case "sum": {
+      const components = a.components.clone().add(b.components);
+      return {
+        position: a.position.clone(),
+        components,
+        equation: `${name} = ${formatComponents(components)}`,
+      };
+    }
+    case "scale": {
+      const components = a.components.clone().multiplyScalar(derivation.scalar);
+      return {
+        position: a.position.clone(),
+        components,
+        equation: `${name} = ${formatComponents(components)}`,
+      };
+    }
+    case "cross": {
+      const components = new Vector3().crossVectors(a.components, b.components);
+      return {
+        position: a.position.clone(),
+        components,
+        equation: `${name} = ${formatComponents(components)}, |${name}| = ${formatScalar(components.length())}`,
+      };
+    }
+    case "projection": {
+      const dot = a.components.dot(b.components);
+      const lengthSq = b.components.lengthSq();
+      const components =
+        lengthSq < EPSILON
+          ? new Vector3()
+          : b.components.clone().multiplyScalar(dot / lengthSq);
+      return {
+        position: b.position.clone(),
+        components,
+        equation: `${a.name}·${b.name} = ${formatScalar(dot)}, ${name} = ${formatComponents(components)}`,
+      };
+    }
+  }
+};
+
+// Recomputes derived vectors in creation order (so a vector derived from a
+// derived vector sees its updated source) and drops any whose sources are gone.
+const refreshDerivedVectors = (objects: MathObject[]): MathObject[] => {
+  const resolved = new Map<string, VectorObject>();
+  const result: MathObject[] = [];
+  for (const obj of objects) {
+    if (obj.type !== "vector") {
+      result.push(obj);
+      continue;
+    }
+    if (!obj.derivation) {
+      resolved.set(obj.id, obj);
+      result.push(obj);
+      continue;
+    }
+    const sources = obj.derivation.sources.map((id) => resolved.get(id));
+    if (sources.some((source) => !source)) continue;
+    const updated: VectorObject = {
+      ...obj,
+      ...computeDerivedVector(
+        obj.derivation,
+        sources as VectorObject[],
+        obj.name
+      ),
+    };
+    resolved.set(obj.id, updated);
+    result.push(updated);
+  }
+  return result;
+};
+
+// Scene files are JSON documents of this shape; see "Scene files" in the
+// README. Bump SCENE_VERSION whenever the shape changes and keep reading the
+// older versions.
+const SCENE_FORMAT = "linear-algebra-ar-scene";
+const SCENE_VERSION = 1;
+const AUTOSAVE_KEY = "linear-algebra-ar:autosave";
+const AUTOSAVE_DELAY_MS = 500;
+
+type Vec3Tuple = [number, number, number];
+
+type SceneObjectV1 =
+  | {
+      type: "plane";
+      id: string;
+      color: string;
+      visible: boolean;
+      coefficients: PlaneEqParams;
+      // Optional; when omitted the plane is placed from its coefficients.
+      position?: Vec3Tuple;
+      rotation?: Vec3Tuple;
+    }
+  | {
+      type: "line";
+      id: string;
+      color: string;
+      visible: boolean;
+      point: Vec3Tuple;
+      direction: Vec3Tuple;
+    }
+  | {
+      type: "vector";
+      id: string;
+      name: string;
+      color: string;
+      visible: boolean;
+      tail: Vec3Tuple;
+      components: Vec3Tuple;
+      derivation: VectorDerivation | null;
+    };
+
+interface SceneFileV1 {
+  format: typeof SCENE_FORMAT;
+  version: typeof SCENE_VERSION;
+  mode: WorkspaceMode;
+  planeParams: PlaneEqParams;
+  rrefArithmetic: RrefArithmetic;
+  initialRrefMatrix: Matrix;
+  objects: SceneObjectV1[];
+}
+
+type SceneState = Pick<
+  LinePlaneStoreState,
+  "mode" | "planeParams" | "rrefArithmetic" | "initialRrefMatrix" | "objects"
+>;
+
+const WORKSPACE_MODES: WorkspaceMode[] = [
+  "random",
+  "equation",
+  "line",
+  "rref",
+  "transform",
+  "eigen",
+  "vector",
+  "span",
+  "lessons",
+  "practice",
+  "generator",
+];
+const VECTOR_OPERATIONS: VectorOperation[] = [
+  "sum",
+  "scale",
+  "cross",
+  "projection",
+];
+
+const toTuple = (v: Vector3 | Euler): Vec3Tuple => [v.x, v.y, v.z];
+
+const serializeScene = (state: SceneState): SceneFileV1 => ({
+  format: SCENE_FORMAT,
+  version: SCENE_VERSION,
+  mode: state.mode,
+  planeParams: { ...state.planeParams },
+  rrefArithmetic: state.rrefArithmetic,
+  initialRrefMatrix: deepCopyMatrix(state.initialRrefMatrix),
+  objects: state.objects.map((obj): SceneObjectV1 => {
+    const base = { id: obj.id, color: obj.color, visible: obj.visible };
+    switch (obj.type) {
+      case "plane":
+        return {
+          ...base,
+          type: "plane",
+          coefficients: { ...obj.coefficients },
+          position: toTuple(obj.position),
+          rotation: toTuple(obj.rotation),
+        };
+      case "line":
+        return {
+          ...base,
+          type: "line",
+          point: toTuple(obj.position),
+          direction: toTuple(obj.direction),
+        };
+      case "vector":
+        return {
+          ...base,
+          type: "vector",
+          name: obj.name,
+          tail: toTuple(obj.position),
+          components: toTuple(obj.components),
+          derivation: obj.derivation && {
+            ...obj.derivation,
+            sources: [...obj.derivation.sources],
+          },
+        };
+    }
+  }),
+});
+
+// Validation helpers throw with the JSON path of the offending value, which
+// parseSceneFile turns into the reported error.
+const expectRecord = (value: unknown, path: string) => {
+  if (typeof value !== "object" || value === null || Array.isArray(value))
+    throw new Error(`${path} must be an object`);
+  return value as Record<string, unknown>;
+};
+const expectNumber = (value: unknown, path: string): number => {
+  if (typeof value !== "number" || !Number.isFinite(value))
+    throw new Error(`${path} must be a finite number`);
+  return value;
+};
+const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== "string") throw new Error(`${path} must be a string`);
+  return value;
+};
+const expectOneOf = <T extends string>(
+  value: unknown,
+  options: T[],
+  path: string
+): T => {
+  if (!options.includes(value as T))
+    throw new Error(`${path} must be one of ${options.join(", ")}`);
+  return value as T;
+};
+const expectArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) throw new Error(`${path} must be an array`);
+  return value;
+};
+const expectVec3 = (value: unknown, path: string): Vector3 => {
+  const items = expectArray(value, path);
+  if (items.length !== 3) throw new Error(`${path} must have 3 entries`);
+  return new Vector3(
+    ...items.map((item, i) => expectNumber(item, `${path}[${i}]`))
+  );
+};
+const expectPlaneParams = (value: unknown, path: string): PlaneEqParams => {
+  const record = expectRecord(value, path);
+  return {
+    paramA: expectNumber(record.paramA, `${path}.paramA`),
+    paramB: expectNumber(record.paramB, `${path}.paramB`),
+    paramC: expectNumber(record.paramC, `${path}.paramC`),
+    paramD: expectNumber(record.paramD, `${path}.paramD`),
+  };
+};
+
+const parseSceneMatrix = (value: unknown, path: string): Matrix => {
+  const rows = expectArray(value, path);
+  if (rows.length < RREF_ROW_LIMITS.min || rows.length > RREF_ROW_LIMITS.max)
+    throw new Error(
+      `${path} must have ${RREF_ROW_LIMITS.min}-${RREF_ROW_LIMITS.max} rows`
+    );
+  const matrix = rows.map((row, r) =>
+    expectArray(row, `${path}[${r}]`).map((cell, c) =>
+      expectNumber(cell, `${path}[${r}][${c}]`)
+    )
+  );
+  const numVars = matrix[0].length - 1;
+  if (numVars < RREF_VAR_LIMITS.min || numVars > RREF_VAR_LIMITS.max)
+    throw new Error(
+      `${path} must have ${RREF_VAR_LIMITS.min}-${RREF_VAR_LIMITS.max} variables plus a constants column`
+    );
+  if (matrix.some((row) => row.length !== numVars + 1))
+    throw new Error(`${path} rows must all have the same length`);
+  return matrix;
+};
+
+const parseSceneObject = (value: unknown, path: string): MathObject => {
+  const record = expectRecord(value, path);
+  const id = expectString(record.id, `${path}.id`);
+  const color = expectString(record.color, `${path}.color`);
+  const visible = record.visible ?? true;
+  if (typeof visible !== "boolean")
+    throw new Error(`${path}.visible must be a boolean`);
+  const type = expectOneOf(
+    record.type,
+    ["plane", "line", "vector"],
+    `${path}.type`
+  );
+  if (type === "plane") {
+    const coefficients = expectPlaneParams(
+      record.coefficients,
+      `${path}.coefficients`
+    );
+    const { paramA, paramB, paramC } = coefficients;
+    if (new Vector3(paramA, paramB, paramC).lengthSq() < EPSILON)
+      throw new Error(`${path}.coefficients must have a non-zero normal`);
+    const transform =
+      record.position !== undefined && record.rotation !== undefined
+        ? {
+            position: expectVec3(record.position, `${path}.position`),
+            rotation: new Euler().setFromVector3(
+              expectVec3(record.rotation, `${path}.rotation`)
+            ),
+          }
+        : getPlaneTransform(coefficients);
+    return {
+      id,
+      type,
+      color,
+      visible,
+      coefficients,
+      ...transform,
+      equation: formatMeasuredPlaneEquation(coefficients),
+    };
+  }
+  if (type === "line") {
+    const position = expectVec3(record.point, `${path}.point`);
+    const direction = expectVec3(record.direction, `${path}.direction`);
+    if (direction.lengthSq() < EPSILON)
+      throw new Error(`${path}.direction must be non-zero`);
+    return {
+      id,
+      type,
+      color,
+      visible,
+      position,
+      direction,
+      equation: formatLineEquation(position, direction),
+    };
+  }
+  const name = expectString(record.name, `${path}.name`);
+  const components = expectVec3(record.components, `${path}.components`);
+  let derivation: VectorDerivation | null = null;
+  if (record.derivation !== null && record.derivation !== undefined) {
+    const d = expectRecord(record.derivation, `${path}.derivation`);
+    derivation = {
+      operation: expectOneOf(
+        d.operation,
+        VECTOR_OPERATIONS,
+        `${path}.derivation.operation`
+      ),
+      sources: expectArray(d.sources, `${path}.derivation.sources`).map(
+        (source, i) => expectString(source, `${path}.derivation.sources[${i}]`)
+      ),
+      scalar: expectNumber(d.scalar, `${path}.derivation.scalar`),
+    };
+  }
+  return {
+    id,
+    type,
+    name,
+    color,
+    visible,
+    position: expectVec3(record.tail, `${path}.tail`),
+    components,
+    derivation,
+    equation: `${name} = ${formatComponents(components)}`,
+  };
+};
+
+// Parses and validates a scene file. Malformed input is reported as an error
+// message rather than thrown, so a bad file can never break the scene.
+const parseSceneFile = (
+  text: string
+): { scene: SceneState; error?: never } | { error: string } => {
+  try {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error("file is not valid JSON");
+    }
+    const root = expectRecord(json, "scene");
+    if (root.format !== SCENE_FORMAT)
+      throw new Error(`scene.format must be "${SCENE_FORMAT}"`);
+    const version = expectNumber(root.version, "scene.version");
+    if (version !== SCENE_VERSION)
+      throw new Error(
+        `scene.version ${version} is not supported (expected ${SCENE_VERSION})`
+      );
+    const objects = expectArray(root.objects, "scene.objects").map((obj, i) =>
+      parseSceneObject(obj, `scene.objects[${i}]`)
+    );
+    const ids = new Set<string>();
+    objects.forEach((obj, i) => {
+      if (ids.has(obj.id))
+        throw new Error(`scene.objects[${i}].id "${obj.id}" is a duplicate`);
+      ids.add(obj.id);
+    });
+    return {
+      scene: {
+        mode: expectOneOf(root.mode, WORKSPACE_MODES, "scene.mode"),
+        planeParams: expectPlaneParams(root.planeParams, "scene.planeParams"),
+        rrefArithmetic: expectOneOf(
+          root.rrefArithmetic,
+          ["exact", "float"],
+          "scene.rrefArithmetic"
+        ),
+        initialRrefMatrix: parseSceneMatrix(
+          root.initialRrefMatrix,
+          "scene.initialRrefMatrix"
+        ),
+        objects: refreshDerivedVectors(objects),
+      },
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Shared links carry a compact, hand-editable scene in the URL hash:
+//   #rref=1,0,0,1;0,1,0,2;0,0,1,3&arith=exact&step=2  (step is 1-based, optional)
+//   #planes=1,1,1,3;1,-1,1,1                            (a,b,c,d per plane)
+//   #planes=                                            (no planes)
+// Values are written as fractions when that is exact (1/3), otherwise in full
+// precision, so a link reopens the values it was made from. Rows beyond the
+// editor's limit are dropped and the step clamped, with a note saying so;
+// anything that can't be read is rejected.
+
+type SharedScene =
+  | {
+      kind: "rref";
+      matrix: Matrix;
+      arithmetic: RrefArithmetic;
+      step: number | null;
+    }
+  | { kind: "planes"; planes: PlaneEqParams[] };
+
+const formatShareNumber = (value: number) => {
+  const fraction = rationalFromNumber(value);
+  return Number(fraction.num) / Number(fraction.den) === value
+    ? formatScalar(fraction)
+    : `${value}`;
+};
+
+const encodeShareHash = (state: LinePlaneStoreState): string => {
+  if (state.mode === "rref") {
+    const rows = state.initialRrefMatrix
+      .map((row) => row.map(formatShareNumber).join(","))
+      .join(";");
+    const step =
+      state.rrefState === "viewing" ? `&step=${state.rrefStepIndex + 1}` : "";
+    return `rref=${rows}&arith=${state.rrefArithmetic}${step}`;
+  }
+  // A plane with a zero normal (see isShownPlane) can't be opened again.
+  const planes = state.objects
+    .filter(
+      (obj): obj is PlaneObject =>
+        obj.type === "plane" &&
+        new Vector3(
+          obj.coefficients.paramA,
+          obj.coefficients.paramB,
+          obj.coefficients.paramC
+        ).lengthSq() >= EPSILON
+    )
+    .map(({ coefficients: { paramA, paramB, paramC, paramD } }) =>
+      [paramA, paramB, paramC, paramD].map(formatShareNumber).join(",")
+    )
+    .join(";");
+  return `planes=${planes}`;
+};
+
+const parseShareRows = (text: string, key: string): number[][] =>
+  text.split(";").map((row, r) =>
+    row.split(",").map((cell, c) => {
+      const [numerator, denominator = "1", ...rest] = cell.split("/");
+      const value = Number(numerator) / Number(denominator);
+      if (
+        numerator.trim() === "" ||
+        denominator.trim() === "" ||
+        rest.length > 0 ||
+        !Number.isFinite(value)
+      )
+        throw new Error(
+          `${key} row ${r + 1}, entry ${c + 1} ("${cell}") is not a number`
+        );
+      return value;
+    })
+  );
+
+const parseShareHash = (
+  hash: string
+):
+  | { shared: SharedScene; notes: string[]; error?: never }
+  | { error: string } => {
+  try {
+    const params = new Map<string, string>();
+    decodeURIComponent(hash.replace(/^#/, ""))
+      .split("&")
+      .filter((part) => part.length > 0)
+      .forEach((part) => {
+        const [key, ...rest] = part.split("=");
+        params.set(key, rest.join("="));
+      });
+    const rref = params.get("rref");
+    const planes = params.get("planes");
+    if (rref !== undefined && planes !== undefined)
+      throw new Error("link can't contain both rref and planes");
+    if (planes !== undefined) {
+      const rows = planes === "" ? [] : parseShareRows(planes, "planes");
+      return {
+        notes: [],
+        shared: {
+          kind: "planes",
+          planes: rows.map((row, i) => {
+            if (row.length !== 4)
+              throw new Error(`plane ${i + 1} needs 4 values (a,b,c,d)`);
+            if (new Vector3(row[0], row[1], row[2]).lengthSq() < EPSILON)
+              throw new Error(`plane ${i + 1} has a zero normal`);
+            const [paramA, paramB, paramC, paramD] = row;
+            return { paramA, paramB, paramC, paramD };
+          }),
+        },
+      };
+    }
+    if (rref === undefined) throw new Error("link has no rref or planes");
+    const allRows = parseShareRows(rref, "rref");
+    const rows = allRows.slice(0, RREF_ROW_LIMITS.max);
+    const notes =
+      allRows.length > rows.length
+        ? [`Only the first ${rows.length} of ${allRows.length} rows were kept.`]
+        : [];
+    const numVars = rows[0].length - 1;
+    if (numVars < RREF_VAR_LIMITS.min || numVars > RREF_VAR_LIMITS.max)
+      throw new Error(
+        `rref rows need ${RREF_VAR_LIMITS.min + 1}-${RREF_VAR_LIMITS.max + 1} entries`
+      );
+    if (rows.some((row) => row.length !== numVars + 1))
+      throw new Error("rref rows must all have the same length");
+    const arith = params.get("arith") ?? "exact";
+    if (arith !== "exact" && arith !== "float")
+      throw new Error(`arith must be exact or float, not "${arith}"`);
+    const stepText = params.get("step");
+    const step = stepText === undefined ? null : Math.floor(Number(stepText));
+    if (step !== null && !Number.isFinite(step))
+      throw new Error(`step "${stepText}" is not a number`);
+    return {
+      shared: { kind: "rref", matrix: rows, arithmetic: arith, step },
+      notes,
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const NUMERIC_ENTRY_CHARACTERS = "0123456789.+-*/() ";
+const NUMERIC_ENTRY_MAX_LENGTH = 24;
+const PLANE_PARAM_ORDER: (keyof PlaneEqParams)[] = [
+  "paramA",
+  "paramB",
+  "paramC",
+  "paramD",
+];
+
+// Evaluates what can be typed into a numeric entry: decimals, fractions and
+// + - * / expressions with parentheses, e.g. "-3.25", "1/3", "2*(1 - 1/4)".
+const parseNumericExpression = (
+  text: string
+): { value: number; error?: never } | { error: string } => {
+  const tokens = text.match(/\d+\.?\d*|\.\d+|\S/g) ?? [];
+  let index = 0;
+  const fail = (message: string): never => {
+    throw new Error(message);
+  };
+  const parseFactor = (): number => {
+    const token = tokens[index++];
+    if (token === "-") return -parseFactor();
+    if (token === "+") return parseFactor();
+    if (token === "(") {
+      const value = parseSum();
+      if (tokens[index++] !== ")") fail("Missing closing parenthesis.");
+      return value;
+    }
+    if (token !== undefined && /^(\d+\.?\d*|\.\d+)$/.test(token))
+      return Number(token);
+    return fail(
+      token === undefined ? "Expression ends early." : `Unexpected "${token}".`
+    );
+  };
+  const parseProduct = (): number => {
+    let value = parseFactor();
+    while (tokens[index] === "*" || tokens[index] === "/") {
+      const operator = tokens[index++];
+      const rhs = parseFactor();
+      if (operator === "/" && rhs === 0) fail("Division by zero.");
+      value = operator === "*" ? value * rhs : value / rhs;
+    }
+    return value;
+  };
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (tokens[index] === "+" || tokens[index] === "-") {
+      const operator = tokens[index++];
+      const rhs = parseProduct();
+      value = operator === "+" ? value + rhs : value - rhs;
+    }
+    return value;
+  };
+  try {
+    if (tokens.length === 0) fail("Enter a number.");
+    const value = parseSum();
+    if (index < tokens.length) fail(`Unexpected "${tokens[index]}".`);
+    if (!Number.isFinite(value)) fail("The value is too large.");
+    return { value };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const isSameEntryTarget = (
+  a: NumericEntryTarget,
+  b: NumericEntryTarget
+): boolean =>
+  a.kind === "rrefCell"
+    ? b.kind === "rrefCell" && a.row === b.row && a.col === b.col
+    : b.kind === "planeParam" && a.param === b.param;
+
+// The coefficients the equation panel is showing: the selected plane's while
+// editing it, otherwise those of the next plane to spawn.
+const getEquationPanelPlane = (
+  state: LinePlaneStoreState
+): PlaneObject | null =>
+  (state.editSelectedPlane &&
+    state.objects.find(
+      (obj): obj is PlaneObject =>
+        obj.id === state.selectedObjectId && obj.type === "plane"
+    )) ||
+  null;
+
+const readNumericEntryTarget = (
+  state: LinePlaneStoreState,
+  target: NumericEntryTarget
+): number => {
+  if (target.kind === "rrefCell")
+    return state.initialRrefMatrix[target.row]?.[target.col] ?? 0;
+  const plane = getEquationPanelPlane(state);
+  return (plane ? plane.coefficients : state.planeParams)[target.param];
+};
+
+const describeNumericEntryTarget = (
+  state: LinePlaneStoreState,
+  target: NumericEntryTarget
+): string => {
+  if (target.kind === "planeParam")
+    return `Coefficient ${"abcd"[PLANE_PARAM_ORDER.indexOf(target.param)]}`;
+  const numVars = (state.initialRrefMatrix[0]?.length ?? 1) - 1;
+  const column =
+    target.col === numVars ? "constant" : getVariableNames(numVars)[target.col];
+  return `Row ${target.row + 1}, ${column}`;
+};
+
+// Tab order runs row by row (and wraps); arrow keys stop at the edges.
+const moveNumericEntryTarget = (
+  state: LinePlaneStoreState,
+  target: NumericEntryTarget,
+  move: NumericEntryMove
+): NumericEntryTarget => {
+  const clamp = (value: number, count: number) =>
+    Math.min(count - 1, Math.max(0, value));
+  const wrap = (value: number, count: number) => (value + count) % count;
+  if (target.kind === "planeParam") {
+    const count = PLANE_PARAM_ORDER.length;
+    const index = PLANE_PARAM_ORDER.indexOf(target.param);
+    const step =
+      move === "next" || move === "down" || move === "right" ? 1 : -1;
+    const next =
+      move === "next" || move === "previous"
+        ? wrap(index + step, count)
+        : clamp(index + step, count);
+    return { kind: "planeParam", param: PLANE_PARAM_ORDER[next] };
+  }
+  const numRows = state.initialRrefMatrix.length;
+  const numCols = state.initialRrefMatrix[0]?.length ?? 1;
+  switch (move) {
+    case "next":
+    case "previous": {
+      const flat = wrap(
+        target.row * numCols + target.col + (move === "next" ? 1 : -1),
+        numRows * numCols
+      );
+      return {
+        kind: "rrefCell",
+        row: Math.floor(flat / numCols),
+        col: flat % numCols,
+      };
+    }
+    case "up":
+    case "down":
+      return {
+        ...target,
+        row: clamp(target.row + (move === "down" ? 1 : -1), numRows),
+      };
+    case "left":
+    case "right":
+      return {
+        ...target,
+        col: clamp(target.col + (move === "right" ? 1 : -1), numCols),
+      };
+  }
+};
+
+export const useLinePlaneStore = create<LinePlaneStoreState>((set, get) => ({
+  objects: [],
+  selectedObjectId: null,
+  selectedVectorIds: [],
+  isMeasuring: false,
+  measuredIds: [],
+  mode: "random",
+  planeParams: { ...defaultPlaneParams },
+  editSelectedPlane: false,
+  grabConstraint: "free",
+  lineParams: { ...defaultLineParams },
+  vectorParams: [1, 1, 0],
+  vectorScalar: 2,
+  initialRrefMatrix: deepCopyMatrix(sampleMatrix),
+  rrefArithmetic: "exact",
+  rrefHistory: [],
+  rrefStepIndex: -1,
+  rrefState: "editing",
+  rrefAnalysis: null,
+  rrefUniqueSolutionPoint: null,
+  rrefLeastSquaresSolution: null,
+  rrefShowLeastSquares: false,
+  rrefAutoPlay: false,
+  rrefPlaybackSpeed: 1,
+  transformMatrix: deepCopyMatrix(identityMatrix3),
+  transformTarget: 0,
+  eigenSampleVector: [1, 1, 0],
+  spanVectors: defaultSpanVectors.map(
+    (v) => [...v] as [number, number, number]
+  ),
+  undoStack: [],
+  redoStack: [],
+  historyTransaction: "none",
+  sceneError: null,
+  activeLesson: null,
+  practice: null,
+  practiceDraft: defaultPracticeDraft,
+  practiceFeedback: null,
+  generatorOutcome: "unique",
+  generatorSeed: 1,
+  numericEntry: null,
+
+  addPlane: (position?: Vector3, rotation?: Euler, params?: PlaneEqParams) => {
+    let pos = position;
+    let rot = rotation;
+    let eq = "";
+
+    if (params) {
+      const transform = getPlaneTransform(params);
+      pos = transform.position;
+      rot = transform.rotation;
+      eq = formatPlaneEquation(params);
+    } else {
+      pos ||= new Vector3(
+        Math.random() * 2 - 1,
+        Math.random() * 1.5,
+        Math.random() * 2 - 1
+      );
+      rot ||= new Euler(
+        Math.random() * Math.PI * 2,
+        Math.random() * Math.PI * 2,
+        Math.random() * Math.PI * 2
+      );
+    }
+
+    const id = generateUUID();
+    const plane: PlaneObject = {
+      id,
+      type: "plane",
+      position: pos.clone(),
+      rotation: rot.clone(),
+      coefficients: params
+        ? { ...params }
+        : planeCoefficientsFromTransform(pos, rot),
+      color: `hsl(${Math.floor(Math.random() * 360)}, 70%, 50%)`,
+      equation: eq,
+      visible: true,
+    };
+    set((state) => ({
+      ...recordHistory(state),
+      objects: [...state.objects, plane],
+      selectedObjectId: id,
+    }));
 
     if (!eq) {
       get().updateEquation(id);
     }
   },
   removeObject: (id) => {
+    set((state) => {
+      const objects = refreshDerivedVectors(
+        state.objects.filter((obj) => obj.id !== id)
+      );
+      const remaining = new Set(objects.map((obj) => obj.id));
+      return {
+        ...recordHistory(state),
+        objects,
+        selectedObjectId:
+          state.selectedObjectId && remaining.has(state.selectedObjectId)
+            ? state.selectedObjectId
+            : null,
+        selectedVectorIds: state.selectedVectorIds.filter((vid) =>
+          remaining.has(vid)
+        ),
+      };
+    });
+  },
+  updateObjectPosition: (id, position) => {
     set((state) => ({
-      objects: state.objects.filter((obj) => obj.id !== id),
-      selectedObjectId:
-        state.selectedObjectId === id ? null : state.selectedObjectId,
+      ...recordHistory(state),
+      objects: refreshDerivedVectors(
+        state.objects.map((obj) =>
+          obj.id === id ? { ...obj, position: position.clone() } : obj
+        )
+      ),
     }));
+    get().updateEquation(id);
   },
-  updateObjectPosition: (id, position) => {
+  updateObjectTransform: (id, position, rotation) => {
     set((state) => ({
+      ...recordHistory(state),
       objects: state.objects.map((obj) =>
-        obj.id === id ? { ...obj, position: position.clone() } : obj
+        obj.id === id && obj.type === "plane"
+          ? { ...obj, position: position.clone(), rotation: rotation.clone() }
+          : obj
       ),
     }));
     get().updateEquation(id);
   },
+  setGrabConstraint: (constraint) => set({ grabConstraint: constraint }),
 
   updateEquation: (id) => {
     const object = get().objects.find((obj) => obj.id === id);
-    if (!object || object.type !== "plane") return;
-    let equation = "";
-    const normal = new Vector3(0, 0, 1).applyEuler(object.rotation).normalize();
-
-    const d_rhs = normal.dot(object.position);
-    const a = normal.x;
-    const b = normal.y;
-    const c = normal.z;
-
-    const formatCoeff = (val: number, axis: string) => {
-      if (Math.abs(val) < 0.01) return "";
-      const sign = val >= 0 ? "+ " : "- ";
-      const num = Math.abs(val).toFixed(2);
-      const numStr = num === "1.00" && axis ? "" : num;
-      return `${sign}${numStr}${axis} `;
-    };
-    const formatD = (val: number) => val.toFixed(2);
-
-    let eq =
-      `${formatCoeff(a, "x")}${formatCoeff(b, "y")}${formatCoeff(c, "z")}`.trim();
-    if (eq.startsWith("+ ")) eq = eq.substring(2);
-    if (eq === "") eq = "0";
-
-    equation = `${eq} = ${formatD(d_rhs)}`;
+    if (!object || object.type === "vector") return;
+    if (object.type === "line") {
+      const equation = formatLineEquation(object.position, object.direction);
+      set((state) => ({
+        objects: state.objects.map((obj) =>
+          obj.id === id ? { ...obj, equation } : obj
+        ),
+      }));
+      return;
+    }
+    // Keep the scale of the stored coefficients, so a grabbed 2y = 4 stays
+    // in that form rather than jumping to its normalized equation.
+    const { paramA, paramB, paramC } = object.coefficients;
+    const coefficients = planeCoefficientsFromTransform(
+      object.position,
+      object.rotation,
+      new Vector3(paramA, paramB, paramC).length() || 1
+    );
+    const equation = formatMeasuredPlaneEquation(coefficients);
 
     set((state) => ({
       objects: state.objects.map((obj) =>
-        obj.id === id ? { ...obj, equation } : obj
+        obj.id === id ? { ...obj, equation, coefficients } : obj
       ),
     }));
   },
   selectObject: (id) => {
-    set({ selectedObjectId: id });
+    set((state) => {
+      const isObject = state.objects.some((obj) => obj.id === id);
+      const isVector = state.objects.some(
+        (obj) => obj.id === id && obj.type === "vector"
+      );
+      return {
+        // Intersections can be picked for measuring but aren't objects.
+        selectedObjectId: !id || isObject ? id : state.selectedObjectId,
+        selectedVectorIds: !id
+          ? []
+          : isVector
+            ? [
+                ...state.selectedVectorIds.filter((vid) => vid !== id),
+                id,
+              ].slice(-2)
+            : state.selectedVectorIds,
+        measuredIds:
+          id && state.isMeasuring
+            ? [...state.measuredIds.filter((mid) => mid !== id), id].slice(-2)
+            : state.measuredIds,
+      };
+    });
   },
-  clearAll: () => set({ objects: [], selectedObjectId: null }),
+  toggleMeasuring: () =>
+    set((state) => ({ isMeasuring: !state.isMeasuring, measuredIds: [] })),
+  clearAll: () =>
+    set((state) => ({
+      ...recordHistory(state),
+      objects: [],
+      selectedObjectId: null,
+      selectedVectorIds: [],
+    })),
   setMode: (mode) => {
     if (mode === "rref") {
-      set({
+      set((state) => ({
+        ...recordHistory(state),
+        ...rrefViewReset,
         mode: "rref",
-        rrefState: "editing",
-        initialRrefMatrix: deepCopyMatrix(sampleMatrix),
-        rrefHistory: [],
-        rrefStepIndex: -1,
-        rrefAnalysis: null,
-        rrefUniqueSolutionPoint: null,
         objects: [],
         selectedObjectId: null,
-      });
+        selectedVectorIds: [],
+        ...measuringReset,
+      }));
     } else {
       set({
+        ...rrefViewReset,
+        ...measuringReset,
         mode: mode,
-        rrefHistory: [],
-        rrefStepIndex: -1,
-        rrefAnalysis: null,
-        rrefUniqueSolutionPoint: null,
+        transformTarget: 0,
       });
     }
   },
   setPlaneParam: (param, value) =>
     set((s) => ({ planeParams: { ...s.planeParams, [param]: value } })),
+  setEditSelectedPlane: (enabled) => set({ editSelectedPlane: enabled }),
+  updatePlaneCoefficient: (id, param, value) => {
+    set((state) => ({
+      ...recordHistory(state),
+      objects: state.objects.map((obj) => {
+        if (obj.id !== id || obj.type !== "plane") return obj;
+        const coefficients = { ...obj.coefficients, [param]: value };
+        const { paramA, paramB, paramC } = coefficients;
+        // A zero normal isn't a plane; keep the last valid transform (the
+        // plane is hidden meanwhile, see isShownPlane).
+        if (new Vector3(paramA, paramB, paramC).lengthSq() < EPSILON) {
+          return {
+            ...obj,
+            coefficients,
+            equation: `${formatPlaneEquation(coefficients)} (not a plane)`,
+          };
+        }
+        return {
+          ...obj,
+          ...getPlaneTransform(coefficients),
+          coefficients,
+          equation: formatPlaneEquation(coefficients),
+        };
+      }),
+    }));
+  },
   spawnFromEquation: () => {
     const { planeParams, addPlane } = get();
 
     addPlane(undefined, undefined, planeParams);
   },
 
-  updateInitialRrefCell: (row, col, value) => {
-    const currentMatrix = get().initialRrefMatrix;
-    if (
-      row < 0 ||
-      row >= currentMatrix.length ||
-      col < 0 ||
-      col >= currentMatrix[0].length
-    )
-      return;
+  addLine: (point, direction) => {
+    if (direction.lengthSq() < EPSILON) return;
+    const id = generateUUID();
+    const line: LineObject = {
+      id,
+      type: "line",
+      position: point.clone(),
+      direction: direction.clone(),
+      color: `hsl(${Math.floor(Math.random() * 360)}, 90%, 65%)`,
+      equation: formatLineEquation(point, direction),
+      visible: true,
+    };
+    set((state) => ({
+      ...recordHistory(state),
+      objects: [...state.objects, line],
+      selectedObjectId: id,
+    }));
+  },
+  setLineDefinition: (definition) =>
+    set((s) => ({ lineParams: { ...s.lineParams, definition } })),
+  setLineParam: (vector, index, value) => {
+    if (index < 0 || index > 2) return;
+    const values = [...get().lineParams[vector]] as [number, number, number];
+    values[index] = value;
+    set((s) => ({ lineParams: { ...s.lineParams, [vector]: values } }));
+  },
+  spawnLineFromParams: () => {
+    const { lineParams, addLine } = get();
+    const point = new Vector3(...lineParams.point);
+    const second = new Vector3(...lineParams.second);
+    addLine(
+      point,
+      lineParams.definition === "twoPoints" ? second.sub(point) : second
+    );
+  },
+
+  addVector: (components, tail = new Vector3()) => {
+    const id = generateUUID();
+    set((state) => {
+      const name = nextVectorName(state.objects);
+      const vector: VectorObject = {
+        id,
+        type: "vector",
+        name,
+        position: tail.clone(),
+        components: components.clone(),
+        derivation: null,
+        color: `hsl(${Math.floor(Math.random() * 360)}, 80%, 60%)`,
+        equation: `${name} = ${formatComponents(components)}`,
+        visible: true,
+      };
+      return {
+        ...recordHistory(state),
+        objects: [...state.objects, vector],
+        selectedObjectId: id,
+        selectedVectorIds: [...state.selectedVectorIds, id].slice(-2),
+      };
+    });
+  },
+  updateVectorHead: (id, head) => {
+    set((state) => ({
+      ...recordHistory(state),
+      objects: refreshDerivedVectors(
+        state.objects.map((obj) => {
+          if (obj.id !== id || obj.type !== "vector" || obj.derivation)
+            return obj;
+          const components = head.clone().sub(obj.position);
+          return {
+            ...obj,
+            components,
+            equation: `${obj.name} = ${formatComponents(components)}`,
+          };
+        })
+      ),
+    }));
+  },
+  setVectorParam: (index, value) => {
+    if (index < 0 || index > 2) return;
+    const params = [...get().vectorParams] as [number, number, number];
+    params[index] = value;
+    set({ vectorParams: params });
+  },
+  setVectorScalar: (value) => set({ vectorScalar: value }),
+  spawnVectorFromComponents: () => {
+    const { vectorParams, addVector } = get();
+    addVector(new Vector3(...vectorParams));
+  },
+  addDerivedVector: (operation) => {
+    const { objects, selectedVectorIds, vectorScalar } = get();
+    const needed = operation === "scale" ? 1 : 2;
+    const sources = selectedVectorIds
+      .slice(-needed)
+      .map((vid) => objects.find((obj) => obj.id === vid))
+      .filter((obj): obj is VectorObject => obj?.type === "vector");
+    if (sources.length < needed) return;
+    const derivation: VectorDerivation = {
+      operation,
+      sources: sources.map((source) => source.id),
+      scalar: vectorScalar,
+    };
+    const name = getDerivedVectorName(derivation, sources);
+    const vector: VectorObject = {
+      id: generateUUID(),
+      type: "vector",
+      name,
+      derivation,
+      color: DERIVED_VECTOR_COLORS[operation],
+      visible: true,
+      ...computeDerivedVector(derivation, sources, name),
+    };
+    set((state) => ({
+      ...recordHistory(state),
+      objects: [...state.objects, vector],
+    }));
+  },
+
+  updateInitialRrefCell: (row, col, value) => {
+    const currentMatrix = get().initialRrefMatrix;
+    if (
+      row < 0 ||
+      row >= currentMatrix.length ||
+      col < 0 ||
+      col >= currentMatrix[0].length
+    )
+      return;
     const newMatrix = deepCopyMatrix(currentMatrix);
     newMatrix[row][col] = value;
-    set({ initialRrefMatrix: newMatrix });
+    set((state) => ({ ...recordHistory(state), initialRrefMatrix: newMatrix }));
+  },
+  resizeInitialRrefMatrix: (numRows, numVars) => {
+    if (get().rrefState !== "editing") return;
+    const rows = Math.min(
+      RREF_ROW_LIMITS.max,
+      Math.max(RREF_ROW_LIMITS.min, numRows)
+    );
+    const vars = Math.min(
+      RREF_VAR_LIMITS.max,
+      Math.max(RREF_VAR_LIMITS.min, numVars)
+    );
+    set((state) => ({
+      ...recordHistory(state),
+      initialRrefMatrix: resizeAugmentedMatrix(
+        state.initialRrefMatrix,
+        rows,
+        vars
+      ),
+      numericEntry: null,
+    }));
+  },
+  setRrefArithmetic: (arithmetic) => {
+    if (get().rrefState !== "editing") return;
+    set({ rrefArithmetic: arithmetic });
   },
   calculateAndStartRrefViewing: () => {
-    const initialMatrix = get().initialRrefMatrix;
-    const history = calculateRrefSteps(initialMatrix);
+    const { initialRrefMatrix: initialMatrix, rrefArithmetic } = get();
+    const history = calculateRrefSteps(initialMatrix, rrefArithmetic);
     const finalMatrix =
-      history.length > 0 ? history[history.length - 1] : initialMatrix;
-    const analysis = analyzeRref(finalMatrix);
+      history.length > 0 ? history[history.length - 1].matrix : initialMatrix;
+    const analysis = analyzeRref(finalMatrix, rrefArithmetic);
     set({
       rrefHistory: history,
       rrefStepIndex: 0,
       rrefState: "viewing",
       rrefAnalysis: analysis,
       rrefUniqueSolutionPoint: analysis.solutionPoint,
+      rrefLeastSquaresSolution:
+        analysis.consistency === "inconsistent"
+          ? solveLeastSquares(initialMatrix, rrefArithmetic)
+          : null,
+      rrefShowLeastSquares: false,
+      numericEntry: null,
     });
   },
   resetRrefToEditing: () => {
@@ -523,8 +2560,48 @@ export const useLinePlaneStore = create<LinePlaneStoreState>((set, get) => ({
       rrefStepIndex: -1,
       rrefAnalysis: null,
       rrefUniqueSolutionPoint: null,
+      rrefLeastSquaresSolution: null,
+      rrefShowLeastSquares: false,
+      rrefAutoPlay: false,
+    });
+  },
+  toggleRrefLeastSquares: () =>
+    set((s) => ({ rrefShowLeastSquares: !s.rrefShowLeastSquares })),
+  toggleRrefAutoPlay: () => {
+    const { rrefAutoPlay, rrefHistory, rrefStepIndex, rrefState } = get();
+    if (rrefState !== "viewing") return;
+    if (rrefAutoPlay) {
+      set({ rrefAutoPlay: false });
+      return;
+    }
+    // Playing from the last step starts over.
+    set({
+      rrefAutoPlay: true,
+      rrefStepIndex:
+        rrefStepIndex >= rrefHistory.length - 1 ? 0 : rrefStepIndex,
     });
   },
+  cycleRrefPlaybackSpeed: () =>
+    set((s) => ({
+      rrefPlaybackSpeed:
+        RREF_PLAYBACK_SPEEDS[
+          (RREF_PLAYBACK_SPEEDS.indexOf(s.rrefPlaybackSpeed) + 1) %
+            RREF_PLAYBACK_SPEEDS.length
+        ],
+    })),
+
+  updateTransformCell: (row, col, value) => {
+    if (row < 0 || row >= 3 || col < 0 || col >= 3) return;
+    const newMatrix = deepCopyMatrix(get().transformMatrix);
+    newMatrix[row][col] = value;
+    set({ transformMatrix: newMatrix });
+  },
+  setTransformTarget: (target) => set({ transformTarget: target }),
+  resetTransformMatrix: () =>
+    set({
+      transformMatrix: deepCopyMatrix(identityMatrix3),
+      transformTarget: 0,
+    }),
   stepRrefHistory: (direction) => {
     const { rrefHistory, rrefStepIndex, rrefState } = get();
     if (rrefState !== "viewing") return;
@@ -536,123 +2613,897 @@ export const useLinePlaneStore = create<LinePlaneStoreState>((set, get) => ({
       set({ rrefStepIndex: newIndex });
     }
   },
+  setEigenSampleComponent: (index, value) => {
+    if (index < 0 || index > 2) return;
+    const vector = [...get().eigenSampleVector] as [number, number, number];
+    vector[index] = value;
+    set({ eigenSampleVector: vector });
+  },
+  setEigenSampleVector: (vector) => set({ eigenSampleVector: vector }),
+
+  setSpanComponent: (vectorIndex, index, value) => {
+    const { spanVectors } = get();
+    if (!spanVectors[vectorIndex] || index < 0 || index > 2) return;
+    set({
+      spanVectors: spanVectors.map((v, i) => {
+        if (i !== vectorIndex) return v;
+        const updated = [...v] as [number, number, number];
+        updated[index] = value;
+        return updated;
+      }),
+    });
+  },
+  setSpanVectorCount: (count) => {
+    const { spanVectors } = get();
+    if (count < SPAN_VECTOR_LIMITS.min || count > SPAN_VECTOR_LIMITS.max)
+      return;
+    set({
+      spanVectors: Array.from(
+        { length: count },
+        (_, i) => spanVectors[i] ?? [0, 0, i === 3 ? 1 : 0]
+      ),
+    });
+  },
+  reduceSpanInRref: () => {
+    const {
+      spanVectors,
+      setMode,
+      calculateAndStartRrefViewing,
+      beginHistoryTransaction,
+      endHistoryTransaction,
+    } = get();
+    beginHistoryTransaction();
+    setMode("rref");
+    set((state) => ({
+      ...recordHistory(state),
+      initialRrefMatrix: spanMatrix(spanVectors),
+    }));
+    endHistoryTransaction();
+    calculateAndStartRrefViewing();
+  },
+
+  undo: () =>
+    set((state) => {
+      const previous = state.undoStack[state.undoStack.length - 1];
+      if (!previous) return {};
+      return {
+        ...restoreSnapshot(state, previous),
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, takeSnapshot(state)],
+        historyTransaction: "none",
+      };
+    }),
+  redo: () =>
+    set((state) => {
+      const next = state.redoStack[state.redoStack.length - 1];
+      if (!next) return {};
+      return {
+        ...restoreSnapshot(state, next),
+        undoStack: [...state.undoStack, takeSnapshot(state)],
+        redoStack: state.redoStack.slice(0, -1),
+        historyTransaction: "none",
+      };
+    }),
+  beginHistoryTransaction: () => set({ historyTransaction: "open" }),
+  endHistoryTransaction: () => set({ historyTransaction: "none" }),
+
+  exportScene: () => JSON.stringify(serializeScene(get()), null, 2),
+  importScene: (text) => {
+    const result = parseSceneFile(text);
+    if (result.error !== undefined) {
+      set({ sceneError: `Could not load scene: ${result.error}` });
+      return;
+    }
+    set((state) => ({
+      ...recordHistory(state),
+      ...rrefViewReset,
+      ...result.scene,
+      selectedObjectId: null,
+      selectedVectorIds: [],
+      sceneError: null,
+    }));
+  },
+  restoreAutosave: () => {
+    let text: string | null = null;
+    try {
+      text = localStorage.getItem(AUTOSAVE_KEY);
+    } catch (error) {
+      console.warn("Autosave is unavailable:", error);
+    }
+    if (!text) return;
+    const result = parseSceneFile(text);
+    if (result.error !== undefined) {
+      set({ sceneError: `Could not restore autosave: ${result.error}` });
+      return;
+    }
+    set({ ...rrefViewReset, ...result.scene });
+  },
+  dismissSceneError: () => set({ sceneError: null }),
+  reportSceneError: (message) => set({ sceneError: message }),
+  getShareHash: () => encodeShareHash(get()),
+  applyShareHash: (hash) => {
+    const result = parseShareHash(hash);
+    if (result.error !== undefined) {
+      set({ sceneError: `Could not open shared link: ${result.error}` });
+      return;
+    }
+    const { shared, notes } = result;
+    get().loadSharedScene(shared);
+    const { rrefState, rrefStepIndex } = get();
+    if (
+      shared.kind === "rref" &&
+      shared.step !== null &&
+      rrefState === "viewing" &&
+      rrefStepIndex + 1 !== shared.step
+    )
+      notes.push(
+        `Step ${shared.step} doesn't exist; showing step ${rrefStepIndex + 1}.`
+      );
+    if (notes.length > 0)
+      set({ sceneError: `Shared link changed on opening: ${notes.join(" ")}` });
+  },
+  loadSharedScene: (shared) => {
+    if (shared.kind === "planes") {
+      set((state) => ({
+        ...recordHistory(state),
+        ...rrefViewReset,
+        mode: state.mode === "rref" ? "random" : state.mode,
+        objects: shared.planes.map(
+          (coefficients, i): PlaneObject => ({
+            id: generateUUID(),
+            type: "plane",
+            ...getPlaneTransform(coefficients),
+            coefficients,
+            color: RREF_PLANE_COLORS[i % RREF_PLANE_COLORS.length],
+            equation: formatPlaneEquation(coefficients),
+            visible: true,
+          })
+        ),
+        selectedObjectId: null,
+        selectedVectorIds: [],
+        sceneError: null,
+      }));
+      return;
+    }
+    set((state) => ({
+      ...recordHistory(state),
+      ...rrefViewReset,
+      ...measuringReset,
+      mode: "rref",
+      objects: [],
+      selectedObjectId: null,
+      selectedVectorIds: [],
+      initialRrefMatrix: shared.matrix,
+      rrefArithmetic: shared.arithmetic,
+      sceneError: null,
+    }));
+    if (shared.step === null) return;
+    get().calculateAndStartRrefViewing();
+    const lastIndex = get().rrefHistory.length - 1;
+    set({ rrefStepIndex: Math.min(lastIndex, Math.max(0, shared.step - 1)) });
+  },
+
+  startLesson: (index) => {
+    const lesson = LESSONS[index];
+    if (!lesson) return;
+    get().loadSharedScene(lesson.scene);
+    set({ activeLesson: index });
+  },
+  stepLesson: (direction) => {
+    const { activeLesson, startLesson } = get();
+    if (activeLesson === null) return;
+    const next = activeLesson + (direction === "forward" ? 1 : -1);
+    if (next >= 0 && next < LESSONS.length) startLesson(next);
+  },
+  endLesson: () => set({ activeLesson: null }),
+
+  startPractice: (source) => {
+    const {
+      practice,
+      initialRrefMatrix,
+      rrefArithmetic,
+      generatorOutcome,
+      generatorSeed,
+    } = get();
+    let matrix = initialRrefMatrix;
+    let exampleIndex: number | null = null;
+    if (source === "example") {
+      exampleIndex =
+        ((practice?.exampleIndex ?? -1) + 1) % PRACTICE_EXAMPLES.length;
+      matrix = PRACTICE_EXAMPLES[exampleIndex];
+    } else if (source === "generated") {
+      const generated = generateSystem(generatorOutcome, generatorSeed);
+      if (!generated) {
+        set({
+          sceneError: describeGeneratorFailure(generatorOutcome, generatorSeed),
+        });
+        return;
+      }
+      matrix = generated;
+    }
+    set({
+      ...rrefViewReset,
+      mode: "practice",
+      practice: createPracticeSession(matrix, rrefArithmetic, exampleIndex),
+      practiceDraft: {
+        ...defaultPracticeDraft,
+        rowB: matrix.length > 1 ? 1 : 0,
+      },
+      practiceFeedback: null,
+    });
+  },
+  setPracticeDraft: (draft) =>
+    set((state) => ({ practiceDraft: { ...state.practiceDraft, ...draft } })),
+  applyPracticeOperation: () => {
+    const { practice, practiceDraft } = get();
+    if (!practice) return;
+    const field = getScalarField(practice.arithmetic);
+    const result = rowOperationFromDraft(practiceDraft, field);
+    if ("error" in result) {
+      set({ practiceFeedback: { tone: "error", text: result.error } });
+      return;
+    }
+    const current = practice.steps[practice.steps.length - 1].matrix;
+    const matrix = applyRowOperation(current, result.operation, field);
+    const steps = [
+      ...practice.steps,
+      { matrix, operation: result.operation, pivot: null },
+    ];
+    const operationCount = steps.length - 1;
+    const solved = matricesEqual(matrix, practice.target, field);
+    set({
+      practice: { ...practice, steps },
+      practiceFeedback: solved
+        ? {
+            tone: "success",
+            text: `RREF reached in ${operationCount} operation${operationCount === 1 ? "" : "s"} (the reference solution uses ${practice.referenceLength}). Now decide what the solution set is.`,
+          }
+        : {
+            tone: "info",
+            text: `${formatRowOperation(result.operation)} applied. Not in RREF yet.`,
+          },
+    });
+  },
+  undoPracticeStep: () => {
+    const { practice } = get();
+    if (!practice || practice.steps.length <= 1) return;
+    set({
+      practice: { ...practice, steps: practice.steps.slice(0, -1) },
+      practiceFeedback: null,
+    });
+  },
+  showPracticeHint: () => {
+    const { practice } = get();
+    if (!practice) return;
+    const current = practice.steps[practice.steps.length - 1].matrix;
+    const remaining = calculateRrefSteps(current, practice.arithmetic);
+    set({
+      practiceFeedback:
+        remaining.length > 1
+          ? {
+              tone: "info",
+              text: `Hint: try ${formatRowOperation(remaining[1].operation)}.`,
+            }
+          : { tone: "info", text: "The matrix is already in RREF." },
+    });
+  },
+  declarePracticeSolution: (type) => {
+    const { practice } = get();
+    if (!practice) return;
+    const correct = practice.analysis.solutionType === type;
+    set({
+      practice: { ...practice, declared: type },
+      practiceFeedback: correct
+        ? {
+            tone: "success",
+            text: `Correct. ${practice.analysis.solutionString}`,
+          }
+        : {
+            tone: "error",
+            text: "Not quite. Count the pivots in the RREF and look for a row reading 0 = c.",
+          },
+    });
+  },
+
+  setGeneratorOutcome: (outcome) => set({ generatorOutcome: outcome }),
+  setGeneratorSeed: (seed) =>
+    set({
+      generatorSeed: Math.min(
+        GENERATOR_SEED_LIMIT,
+        Math.max(0, Math.round(seed))
+      ),
+    }),
+  generateProblem: (target) => {
+    const { generatorOutcome, generatorSeed, rrefArithmetic, loadSharedScene } =
+      get();
+    const matrix = generateSystem(generatorOutcome, generatorSeed);
+    if (!matrix) {
+      set({
+        sceneError: describeGeneratorFailure(generatorOutcome, generatorSeed),
+      });
+      return;
+    }
+    loadSharedScene(
+      target === "rref"
+        ? { kind: "rref", matrix, arithmetic: rrefArithmetic, step: null }
+        : {
+            kind: "planes",
+            planes: matrix.map(([paramA, paramB, paramC, paramD]) => ({
+              paramA,
+              paramB,
+              paramC,
+              paramD,
+            })),
+          }
+    );
+  },
+
+  beginNumericEntry: (target) =>
+    set({ numericEntry: { target, text: "", error: null } }),
+  editNumericEntry: (key) => {
+    const { numericEntry } = get();
+    if (!numericEntry) return;
+    let text = numericEntry.text;
+    if (key === "Backspace") text = text.slice(0, -1);
+    else if (key === "Clear") text = "";
+    else if (
+      NUMERIC_ENTRY_CHARACTERS.includes(key) &&
+      text.length < NUMERIC_ENTRY_MAX_LENGTH
+    )
+      text += key;
+    set({ numericEntry: { ...numericEntry, text, error: null } });
+  },
+  commitNumericEntry: (move) => {
+    const { numericEntry } = get();
+    if (!numericEntry) return;
+    const { target, text } = numericEntry;
+    if (text.trim() !== "") {
+      const result = parseNumericExpression(text);
+      if (result.error !== undefined) {
+        set({ numericEntry: { ...numericEntry, error: result.error } });
+        return;
+      }
+      if (target.kind === "rrefCell") {
+        get().updateInitialRrefCell(target.row, target.col, result.value);
+      } else {
+        const plane = getEquationPanelPlane(get());
+        if (plane)
+          get().updatePlaneCoefficient(plane.id, target.param, result.value);
+        else get().setPlaneParam(target.param, result.value);
+      }
+    }
+    set({
+      numericEntry: move
+        ? {
+            target: moveNumericEntryTarget(get(), target, move),
+            text: "",
+            error: null,
+          }
+        : null,
+    });
+  },
+  cancelNumericEntry: () => set({ numericEntry: null }),
 }));
 
-const getPlaneParamsIntersection = (
-  planeObj: MathObject
-): { normal: Vector3; constantD: number } | null => {
-  if (planeObj.type !== "plane") return null;
-  const normal = new Vector3(0, 0, 1).applyEuler(planeObj.rotation).normalize();
-  const D = -normal.dot(planeObj.position);
-  return { normal, constantD: D };
-};
-
-const intersectPlanePlane = (
-  plane1Obj: MathObject,
-  plane2Obj: MathObject
-): { line: Line3; label: string } | null => {
-  if (plane1Obj.type !== "plane" || plane2Obj.type !== "plane") return null;
-
-  const p1Geom = getPlaneParamsIntersection(plane1Obj);
-  const p2Geom = getPlaneParamsIntersection(plane2Obj);
-  if (!p1Geom || !p2Geom) return null;
-  const n1 = p1Geom.normal;
-  const D1 = p1Geom.constantD;
-  const n2 = p2Geom.normal;
-  const D2 = p2Geom.constantD;
-
-  const lineDirection = new Vector3().crossVectors(n1, n2);
-  const n1xn2MagSq = lineDirection.lengthSq();
-  if (n1xn2MagSq < EPSILON) {
-    return null;
+// Writes the scene to localStorage shortly after any saved field changes.
+// Returns a function that stops autosaving.
+const startSceneAutosave = (): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const unsubscribe = useLinePlaneStore.subscribe((state, prev) => {
+    if (
+      state.objects === prev.objects &&
+      state.mode === prev.mode &&
+      state.planeParams === prev.planeParams &&
+      state.rrefArithmetic === prev.rrefArithmetic &&
+      state.initialRrefMatrix === prev.initialRrefMatrix
+    )
+      return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        localStorage.setItem(
+          AUTOSAVE_KEY,
+          JSON.stringify(serializeScene(useLinePlaneStore.getState()))
+        );
+      } catch (error) {
+        console.warn("Autosave failed:", error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+  });
+  return () => {
+    clearTimeout(timer);
+    unsubscribe();
+  };
+};
+
+const getPlaneGeometryFromTransform = (
+  position: Vector3,
+  rotation: Euler
+): PlaneGeometry => {
+  const normal = new Vector3(0, 0, 1).applyEuler(rotation).normalize();
+  return { normal, constantD: -normal.dot(position) };
+};
+
+// Line as point + t·direction with a unit direction.
+type LineGeometry = { point: Vector3; direction: Vector3 };
+
+const getLineGeometry = (lineObj: MathObject): LineGeometry | null => {
+  if (lineObj.type !== "line") return null;
+  const length = lineObj.direction.length();
+  if (length < EPSILON) return null;
+  return {
+    point: lineObj.position.clone(),
+    direction: lineObj.direction.clone().divideScalar(length),
+  };
+};
+
+const formatPoint = (p: Vector3) =>
+  `(${p.x.toFixed(2)}, ${p.y.toFixed(2)}, ${p.z.toFixed(2)})`;
+
+// Returns null when the line is parallel to (or lies in) the plane.
+const intersectLinePlane = (
+  line: LineGeometry,
+  plane: PlaneGeometry
+): { point: Vector3; label: string } | null => {
+  const denom = plane.normal.dot(line.direction);
+  if (Math.abs(denom) < EPSILON) return null;
+  const t = -(plane.normal.dot(line.point) + plane.constantD) / denom;
+  const point = line.point.clone().addScaledVector(line.direction, t);
+  return { point, label: formatPoint(point) };
+};
+
+type LineLineRelation =
+  | { kind: "coincident" }
+  | { kind: "intersecting"; point: Vector3; label: string }
+  | { kind: "parallel" | "skew"; segment: Line3; label: string };
+
+// Classifies two lines; for parallel and skew lines `segment` is the shortest
+// connecting segment, whose length is the distance between them.
+const relateLines = (l1: LineGeometry, l2: LineGeometry): LineLineRelation => {
+  const w0 = l1.point.clone().sub(l2.point);
+  const b = l1.direction.dot(l2.direction);
+  const denom = 1 - b * b;
+  if (denom < EPSILON) {
+    const foot = l2.point
+      .clone()
+      .addScaledVector(l2.direction, w0.dot(l2.direction));
+    const distance = foot.distanceTo(l1.point);
+    if (distance * distance < EPSILON) return { kind: "coincident" };
+    return {
+      kind: "parallel",
+      segment: new Line3(l1.point.clone(), foot),
+      label: `parallel, distance ${distance.toFixed(2)}`,
+    };
   }
-  lineDirection.normalize();
-
-  let linePoint: Vector3 | null = null;
-  const n1xn2NonNormalized = new Vector3().crossVectors(n1, n2);
-  const term1 = n2.clone().multiplyScalar(-D1);
-  const term2 = n1.clone().multiplyScalar(-D2);
-  linePoint = new Vector3()
-    .crossVectors(term1.sub(term2), n1xn2NonNormalized)
-    .divideScalar(n1xn2MagSq);
-
-  if (!linePoint) {
-    console.warn("Failed to find plane-plane intersection point.");
-    return null;
+  const d = l1.direction.dot(w0);
+  const e = l2.direction.dot(w0);
+  const s = (b * e - d) / denom;
+  const t = (e - b * d) / denom;
+  const c1 = l1.point.clone().addScaledVector(l1.direction, s);
+  const c2 = l2.point.clone().addScaledVector(l2.direction, t);
+  const distance = c1.distanceTo(c2);
+  if (distance * distance < EPSILON) {
+    return { kind: "intersecting", point: c1, label: formatPoint(c1) };
   }
-  const label = `P = (${linePoint.x.toFixed(1)}, ${linePoint.y.toFixed(1)}, ${linePoint.z.toFixed(1)}) + t(${lineDirection.x.toFixed(1)}, ${lineDirection.y.toFixed(1)}, ${lineDirection.z.toFixed(1)})`;
-  const segmentLength = 10;
-  const halfLength = segmentLength / 2;
-  const startPoint = linePoint
+  return {
+    kind: "skew",
+    segment: new Line3(c1, c2),
+    label: `skew, distance ${distance.toFixed(2)}`,
+  };
+};
+
+// Something a measurement can be taken from. A plane's `anchor` is a point on
+// it near where it is drawn, so measurements appear next to the plane.
+type MeasureTarget =
+  | { kind: "point"; point: Vector3 }
+  | { kind: "line"; line: LineGeometry }
+  | { kind: "plane"; plane: PlaneGeometry; anchor: Vector3 };
+
+// A distance drawn as a segment, or an angle drawn as an arc at `vertex`
+// from one unit direction to the other.
+type Measurement =
+  | { kind: "distance"; from: Vector3; to: Vector3; label: string }
+  | {
+      kind: "angle";
+      vertex: Vector3;
+      from: Vector3;
+      to: Vector3;
+      angle: number;
+      label: string;
+    };
+
+const MEASURE_TARGET_ORDER: MeasureTarget["kind"][] = [
+  "point",
+  "line",
+  "plane",
+];
+
+const measureDistance = (
+  from: Vector3,
+  to: Vector3,
+  description: string
+): Measurement => ({
+  kind: "distance",
+  from,
+  to,
+  label: `${description} ${from.distanceTo(to).toFixed(2)}`,
+});
+
+// Lines and planes have no preferred direction, so the angle is taken on the
+// acute side.
+const measureAngle = (
+  vertex: Vector3,
+  from: Vector3,
+  to: Vector3,
+  description: string
+): Measurement => {
+  const acuteTo = from.dot(to) < 0 ? to.clone().negate() : to.clone();
+  const angle = from.angleTo(acuteTo);
+  return {
+    kind: "angle",
+    vertex,
+    from,
+    to: acuteTo,
+    angle,
+    label: `${description} ${((angle * 180) / Math.PI).toFixed(1)}°`,
+  };
+};
+
+const projectOntoPlane = (point: Vector3, plane: PlaneGeometry) =>
+  point
+    .clone()
+    .addScaledVector(
+      plane.normal,
+      -(plane.normal.dot(point) + plane.constantD)
+    );
+
+const closestPointOnLine = (point: Vector3, line: LineGeometry) =>
+  line.point
     .clone()
-    .addScaledVector(lineDirection, -halfLength);
-  const endPoint = linePoint.clone().addScaledVector(lineDirection, halfLength);
-  const lineSegment = new Line3(startPoint, endPoint);
-  return { line: lineSegment, label: label };
+    .addScaledVector(
+      line.direction,
+      point.clone().sub(line.point).dot(line.direction)
+    );
+
+const measureBetween = (
+  first: MeasureTarget,
+  second: MeasureTarget
+): Measurement => {
+  const [a, b] =
+    MEASURE_TARGET_ORDER.indexOf(first.kind) <=
+    MEASURE_TARGET_ORDER.indexOf(second.kind)
+      ? [first, second]
+      : [second, first];
+  if (a.kind === "point") {
+    if (b.kind === "point")
+      return measureDistance(a.point, b.point, "distance");
+    if (b.kind === "line")
+      return measureDistance(
+        a.point,
+        closestPointOnLine(a.point, b.line),
+        "distance"
+      );
+    return measureDistance(
+      a.point,
+      projectOntoPlane(a.point, b.plane),
+      "distance"
+    );
+  }
+  if (a.kind === "line") {
+    if (b.kind === "line") {
+      const relation = relateLines(a.line, b.line);
+      if (relation.kind === "coincident")
+        return measureDistance(
+          a.line.point,
+          a.line.point,
+          "same line, distance"
+        );
+      if (relation.kind === "intersecting")
+        return measureAngle(
+          relation.point,
+          a.line.direction,
+          b.line.direction,
+          "angle"
+        );
+      return measureDistance(
+        relation.segment.start,
+        relation.segment.end,
+        `${relation.kind}, distance`
+      );
+    }
+    if (b.kind === "plane") {
+      const hit = intersectLinePlane(a.line, b.plane);
+      const from = closestPointOnLine(b.anchor, a.line);
+      if (!hit)
+        return measureDistance(
+          from,
+          projectOntoPlane(from, b.plane),
+          "parallel, distance"
+        );
+      // The angle with a plane is the angle with the line's shadow on it.
+      const shadow = a.line.direction.clone().projectOnPlane(b.plane.normal);
+      if (shadow.lengthSq() < EPSILON) {
+        shadow.set(1, 0, 0).projectOnPlane(b.plane.normal);
+        if (shadow.lengthSq() < EPSILON)
+          shadow.set(0, 1, 0).projectOnPlane(b.plane.normal);
+      }
+      return measureAngle(
+        hit.point,
+        shadow.normalize(),
+        a.line.direction,
+        "angle"
+      );
+    }
+  }
+  if (a.kind === "plane" && b.kind === "plane") {
+    const hit = intersectPlaneGeometries(a.plane, b.plane);
+    if (!hit)
+      return measureDistance(
+        a.anchor,
+        projectOntoPlane(a.anchor, b.plane),
+        "parallel, distance"
+      );
+    const direction = hit.line.delta(new Vector3()).normalize();
+    const vertex = closestPointOnLine(a.anchor.clone().lerp(b.anchor, 0.5), {
+      point: hit.line.getCenter(new Vector3()),
+      direction,
+    });
+    return measureAngle(
+      vertex,
+      new Vector3().crossVectors(direction, a.plane.normal).normalize(),
+      new Vector3().crossVectors(direction, b.plane.normal).normalize(),
+      "dihedral angle"
+    );
+  }
+  throw new Error(`Can't measure between ${a.kind} and ${b.kind}.`);
 };
 
-const intersectThreePlanes = (
-  plane1Obj: MathObject,
-  plane2Obj: MathObject,
-  plane3Obj: MathObject
-): { point: Vector3; label: string } | null => {
-  if (
-    plane1Obj.type !== "plane" ||
-    plane2Obj.type !== "plane" ||
-    plane3Obj.type !== "plane"
-  )
-    return null;
-
-  const p1Geom = getPlaneParamsIntersection(plane1Obj);
-  const p2Geom = getPlaneParamsIntersection(plane2Obj);
-  const p3Geom = getPlaneParamsIntersection(plane3Obj);
-  if (!p1Geom || !p2Geom || !p3Geom) return null;
-  const n1 = p1Geom.normal;
-  const D1 = p1Geom.constantD;
-  const n2 = p2Geom.normal;
-  const D2 = p2Geom.constantD;
-  const n3 = p3Geom.normal;
-  const D3 = p3Geom.constantD;
-  const det = n1.dot(new Vector3().crossVectors(n2, n3));
-  if (Math.abs(det) < EPSILON) {
-    return null;
+interface InconsistencyDiagnosis {
+  parallelPairs: {
+    rows: [number, number];
+    gap: number;
+    from: Vector3;
+    to: Vector3;
+  }[];
+  prisms: { rows: [number, number, number]; lines: Line3[] }[];
+  contradictionRows: { row: number; value: number }[];
+}
+
+// Explains why a 3-variable system has no solution: rows reading 0 = c,
+// distinct parallel planes, and triples whose pairwise lines are parallel but
+// never meet (the triangular prism).
+const diagnoseInconsistency = (matrix: Matrix): InconsistencyDiagnosis => {
+  const diagnosis: InconsistencyDiagnosis = {
+    parallelPairs: [],
+    prisms: [],
+    contradictionRows: [],
+  };
+  const planes = matrix.map((row) => getPlaneGeometryFromRow(row));
+  matrix.forEach((row, r) => {
+    if (!planes[r] && Math.abs(row[3]) > EPSILON) {
+      diagnosis.contradictionRows.push({ row: r, value: row[3] });
+    }
+  });
+  const isParallel = (i: number, j: number) =>
+    areNormalsParallel(planes[i]!.normal, planes[j]!.normal);
+  const indices = planes.flatMap((p, i) => (p ? [i] : []));
+
+  for (const i of indices) {
+    for (const j of indices) {
+      if (j <= i || !isParallel(i, j)) continue;
+      const p1 = planes[i]!;
+      const p2 = planes[j]!;
+      const sign = Math.sign(p1.normal.dot(p2.normal));
+      const offset1 = -p1.constantD;
+      const offset2 = -p2.constantD * sign;
+      const gap = Math.abs(offset1 - offset2);
+      if (gap > EPSILON) {
+        diagnosis.parallelPairs.push({
+          rows: [i, j],
+          gap,
+          from: p1.normal.clone().multiplyScalar(offset1),
+          to: p1.normal.clone().multiplyScalar(offset2),
+        });
+      }
+    }
+  }
+
+  for (const i of indices) {
+    for (const j of indices) {
+      for (const k of indices) {
+        if (j <= i || k <= j) continue;
+        if (isParallel(i, j) || isParallel(j, k) || isParallel(i, k)) continue;
+        const [p1, p2, p3] = [planes[i]!, planes[j]!, planes[k]!];
+        const det = p1.normal.dot(
+          new Vector3().crossVectors(p2.normal, p3.normal)
+        );
+        if (Math.abs(det) >= EPSILON) continue;
+        const line12 = intersectPlaneGeometries(p1, p2);
+        const line23 = intersectPlaneGeometries(p2, p3);
+        const line13 = intersectPlaneGeometries(p1, p3);
+        if (!line12 || !line23 || !line13) continue;
+        const pointOn12 = line12.line.getCenter(new Vector3());
+        if (Math.abs(p3.normal.dot(pointOn12) + p3.constantD) > EPSILON) {
+          diagnosis.prisms.push({
+            rows: [i, j, k],
+            lines: [line12.line, line23.line, line13.line],
+          });
+        }
+      }
+    }
+  }
+  return diagnosis;
+};
+
+const describeInconsistency = (diagnosis: InconsistencyDiagnosis): string => {
+  const causes = [
+    ...diagnosis.contradictionRows.map(
+      (c) =>
+        `Row ${c.row + 1} reads 0 = ${formatScalar(c.value)} (no point satisfies it).`
+    ),
+    ...diagnosis.parallelPairs.map(
+      (p) =>
+        `Planes ${p.rows[0] + 1} & ${p.rows[1] + 1} are parallel, ${p.gap.toFixed(2)} apart.`
+    ),
+    ...diagnosis.prisms.map(
+      (p) =>
+        `Planes ${p.rows.map((r) => r + 1).join(", ")} meet pairwise in parallel lines (triangular prism).`
+    ),
+  ];
+  return causes.length > 0
+    ? causes.join(" ")
+    : "No single pair or triple of planes explains the conflict.";
+};
+
+interface SolutionInvarianceCheck {
+  matches: boolean;
+  deviation: number;
+  description: string;
+}
+
+const SOLUTION_CHECK_TOLERANCE = 1e-6;
+
+// Compares where the planes of one reduction step meet with the final
+// solution set (a point, line or plane). Row operations never change the
+// solution set, so any deviation beyond rounding means the step drifted.
+const checkSolutionInvariance = (
+  matrix: Matrix,
+  solution: ParametricSolution
+): SolutionInvarianceCheck | null => {
+  const dimension = solution.directions.length;
+  if (matrix[0]?.length !== 4 || dimension > 2) return null;
+  const point = new Vector3(...solution.particular.map(scalarToNumber));
+  const directions = solution.directions.map((d) =>
+    new Vector3(...d.map(scalarToNumber)).normalize()
+  );
+  const planes = matrix.flatMap((row) => {
+    const plane = getPlaneGeometryFromRow(row);
+    return plane ? [plane] : [];
+  });
+  const { configuration, lines, points } = analyzePlaneIntersections(planes);
+  const kind = ["point", "line", "plane"][dimension];
+
+  // Every plane has to pass through the pinned solution, whatever its shape.
+  let deviation = Math.max(
+    0,
+    ...matrix.map((row) => {
+      const plane = getPlaneGeometryFromRow(row);
+      return plane
+        ? Math.abs(plane.normal.dot(point) + plane.constantD)
+        : Math.abs(row[3]);
+    })
+  );
+  let currentKind: string;
+  if (configuration === "point") {
+    currentKind = "point";
+    if (dimension === 0) {
+      deviation = Math.max(deviation, points[0].point.distanceTo(point));
+    }
+  } else if (configuration === "sheaf") {
+    currentKind = "line";
+    if (dimension === 1) {
+      const line = lines[0].line;
+      const lineDirection = line.delta(new Vector3()).normalize();
+      deviation = Math.max(
+        deviation,
+        line.closestPointToPoint(point, false, new Vector3()).distanceTo(point),
+        new Vector3().crossVectors(lineDirection, directions[0]).length()
+      );
+    }
+  } else if (configuration === "single" || configuration === "coincident") {
+    currentKind = "plane";
+    if (dimension === 2) {
+      deviation = Math.max(
+        deviation,
+        ...directions.map((d) => Math.abs(planes[0].normal.dot(d)))
+      );
+    }
+  } else {
+    currentKind = configuration === "empty" ? "space" : "none";
   }
-  const n2xn3 = new Vector3().crossVectors(n2, n3);
-  const n3xn1 = new Vector3().crossVectors(n3, n1);
-  const n1xn2 = new Vector3().crossVectors(n1, n2);
-  const term1 = n2xn3.multiplyScalar(-D1);
-  const term2 = n3xn1.multiplyScalar(-D2);
-  const term3 = n1xn2.multiplyScalar(-D3);
-  const intersectionPoint = new Vector3()
-    .add(term1)
-    .add(term2)
-    .add(term3)
-    .divideScalar(det);
-  const p = intersectionPoint;
-  const label = `(${p.x.toFixed(2)}, ${p.y.toFixed(2)}, ${p.z.toFixed(2)})`;
-  return { point: p, label: label };
+  if (currentKind !== kind) {
+    const current =
+      currentKind === "none"
+        ? "have no common point"
+        : currentKind === "space"
+          ? "leave all of space"
+          : `meet in a ${currentKind}`;
+    return {
+      matches: false,
+      deviation,
+      description: `Warning: these planes ${current}, but the solution set is a ${kind}.`,
+    };
+  }
+  const matches = deviation <= SOLUTION_CHECK_TOLERANCE * (1 + point.length());
+  return {
+    matches,
+    deviation,
+    description: matches
+      ? `Solution ${kind} unchanged by this step.`
+      : `Warning: intersection is off the solution ${kind} by ${deviation.toExponential(1)} (rounding drift).`,
+  };
+};
+
+// Least-squares fallback for an inconsistent system: solves the normal
+// equations AᵀA x = Aᵀb, which are always consistent.
+const solveLeastSquares = (
+  matrix: Matrix,
+  arithmetic: RrefArithmetic
+): Scalar[] | null => {
+  const numVars = (matrix[0]?.length || 0) - 1;
+  if (numVars < 1) return null;
+  const normalEquations: Matrix = Array.from({ length: numVars }, (_, i) =>
+    Array.from({ length: numVars + 1 }, (_, j) =>
+      matrix.reduce((sum, row) => sum + row[i] * row[j], 0)
+    )
+  );
+  const steps = calculateRrefSteps(normalEquations, arithmetic);
+  const reduced = steps[steps.length - 1].matrix;
+  return extractGeneralSolution(reduced, numVars, getScalarField(arithmetic))
+    .particular;
 };
 
+// `onSelect` makes the point pickable (for measuring); its mesh is tagged so
+// a plane behind it can tell the click wasn't meant for the plane.
 const IntersectionPoint = ({
   position,
   label,
+  color = "#ffff00",
+  emissive = "#ccaa00",
+  labelColor = "yellow",
+  onSelect,
+  isSelected = false,
 }: {
   position: Vector3;
   label: string;
+  color?: string;
+  emissive?: string;
+  labelColor?: string;
+  onSelect?: () => void;
+  isSelected?: boolean;
 }) => (
   <group position={position}>
-    <mesh>
-      <sphereGeometry args={[0.04, 16, 16]} />
+    <mesh
+      userData={{ isIntersection: true }}
+      onClick={
+        onSelect &&
+        ((e) => {
+          e.stopPropagation();
+          onSelect();
+        })
+      }
+    >
+      <sphereGeometry args={[isSelected ? 0.06 : 0.04, 16, 16]} />
       <meshStandardMaterial
-        color="#ffff00"
-        emissive="#ccaa00"
+        color={color}
+        emissive={isSelected ? "#ffffff" : emissive}
         emissiveIntensity={0.6}
       />
     </mesh>
     <Text
       position={[0, 0.06, 0]}
       fontSize={0.045}
-      color="yellow"
+      color={labelColor}
       anchorX="center"
       anchorY="bottom"
       outlineWidth={0.002}
@@ -662,7 +3513,21 @@ const IntersectionPoint = ({
     </Text>
   </group>
 );
-const IntersectionLine = ({ line, label }: { line: Line3; label: string }) => {
+const IntersectionLine = ({
+  line,
+  label,
+  color = "#ff00ff",
+  labelColor = "#ff88ff",
+  onSelect,
+  isSelected = false,
+}: {
+  line: Line3;
+  label: string;
+  color?: string;
+  labelColor?: string;
+  onSelect?: () => void;
+  isSelected?: boolean;
+}) => {
   const centerPoint = useMemo(() => line.getCenter(new Vector3()), [line]);
   const lineDir = useMemo(() => {
     const dir = new Vector3().subVectors(line.end, line.start);
@@ -671,11 +3536,23 @@ const IntersectionLine = ({ line, label }: { line: Line3; label: string }) => {
   }, [line]);
   return (
     <group>
-      <Line points={[line.start, line.end]} color="#ff00ff" lineWidth={4} />
+      <Line
+        points={[line.start, line.end]}
+        color={isSelected ? "#ffffff" : color}
+        lineWidth={isSelected ? 6 : 4}
+        userData={{ isIntersection: true }}
+        onClick={
+          onSelect &&
+          ((e) => {
+            e.stopPropagation();
+            onSelect();
+          })
+        }
+      />
       <Text
         position={centerPoint.addScaledVector(lineDir, 0.1)}
         fontSize={0.045}
-        color="#ff88ff"
+        color={labelColor}
         anchorX="center"
         anchorY="middle"
         outlineWidth={0.002}
@@ -687,12 +3564,444 @@ const IntersectionLine = ({ line, label }: { line: Line3; label: string }) => {
   );
 };
 
-const MathPlane = ({
-  id,
+// Dashed segment for a gap between two objects, labelled at its midpoint.
+const DistanceSegment = ({
+  from,
+  to,
+  label,
+  color = "#ff4444",
+  labelColor = "#ff8888",
+  fontSize = 0.045,
+}: {
+  from: Vector3;
+  to: Vector3;
+  label: string;
+  color?: string;
+  labelColor?: string;
+  fontSize?: number;
+}) => (
+  <group>
+    <Line
+      points={[from, to]}
+      color={color}
+      lineWidth={3}
+      dashed
+      dashSize={0.1}
+      gapSize={0.05}
+    />
+    <Text
+      position={from.clone().lerp(to, 0.5)}
+      fontSize={fontSize}
+      color={labelColor}
+      anchorX="left"
+      anchorY="middle"
+      outlineWidth={0.002}
+      outlineColor="#000000"
+    >
+      {`  ${label}`}
+    </Text>
+  </group>
+);
+
+// Arc of `angle` radians at `vertex`, swept from unit direction `from`
+// towards `to`, with both arms drawn and the label past the arc's middle.
+const AngleArc = ({
+  vertex,
+  from,
+  to,
+  angle,
+  label,
+  radius = 0.3,
+}: {
+  vertex: Vector3;
+  from: Vector3;
+  to: Vector3;
+  angle: number;
+  label: string;
+  radius?: number;
+}) => {
+  const arc = useMemo(() => {
+    const across = to.clone().addScaledVector(from, -from.dot(to));
+    if (across.lengthSq() > EPSILON) across.normalize();
+    return Array.from({ length: 25 }, (_, i) => {
+      const t = (angle * i) / 24;
+      return vertex
+        .clone()
+        .addScaledVector(from, radius * Math.cos(t))
+        .addScaledVector(across, radius * Math.sin(t));
+    });
+  }, [vertex, from, to, angle, radius]);
+  return (
+    <group>
+      <Line
+        points={[vertex, vertex.clone().addScaledVector(from, radius * 1.5)]}
+        color="#ffcc33"
+        lineWidth={2}
+      />
+      <Line
+        points={[vertex, vertex.clone().addScaledVector(to, radius * 1.5)]}
+        color="#ffcc33"
+        lineWidth={2}
+      />
+      <Line points={arc} color="#ffcc33" lineWidth={4} />
+      <Text
+        position={vertex.clone().lerp(arc[12], 1.35)}
+        fontSize={0.045}
+        color="#ffe080"
+        anchorX="center"
+        anchorY="middle"
+        outlineWidth={0.002}
+        outlineColor="#000000"
+      >
+        {label}
+      </Text>
+    </group>
+  );
+};
+
+// Notes on a plane that coincides with or runs parallel to others, written
+// across its upper edge.
+const PlaneRelationBadge = ({
+  position,
+  rotation,
+  notes,
+  size,
+}: {
+  position: Vector3;
+  rotation: Euler;
+  notes: string[];
+  size: number;
+}) => (
+  <group position={position} rotation={rotation}>
+    <Text
+      position={[0, size * 0.45, 0.06]}
+      fontSize={size * 0.04}
+      color="#ffd080"
+      anchorX="center"
+      anchorY="top"
+      maxWidth={size * 0.9}
+      outlineWidth={size * 0.002}
+      outlineColor="#000000"
+    >
+      {notes.join("\n")}
+    </Text>
+  </group>
+);
+
+// A row 0x + 0y + 0z = 0 holds everywhere, so it is drawn as the whole space.
+const WholeSpaceIndicator = ({ label }: { label: string }) => (
+  <group>
+    <mesh>
+      <boxGeometry args={[4, 4, 4]} />
+      <meshStandardMaterial
+        color="#66ff99"
+        transparent
+        opacity={0.05}
+        depthWrite={false}
+        side={2}
+      />
+      <Edges color="#99ffbb" />
+    </mesh>
+    <Text
+      position={[0, 2.1, 0]}
+      fontSize={0.15}
+      color="#99ffbb"
+      anchorX="center"
+      anchorY="bottom"
+      maxWidth={4}
+      outlineWidth={0.006}
+      outlineColor="#000000"
+    >
+      {label}
+    </Text>
+  </group>
+);
+
+// A row 0x + 0y + 0z = c with c ≠ 0 holds nowhere: a crossed-out ring marks it.
+const ContradictionMarker = ({
+  position,
+  label,
+}: {
+  position: [number, number, number];
+  label: string;
+}) => (
+  <group position={position}>
+    <mesh>
+      <torusGeometry args={[0.18, 0.025, 8, 32]} />
+      <meshStandardMaterial color="#ff3333" emissive="#aa0000" />
+    </mesh>
+    <Line
+      points={[
+        [-0.2, -0.2, 0],
+        [0.2, 0.2, 0],
+      ]}
+      color="#ff3333"
+      lineWidth={4}
+    />
+    <Text
+      position={[0.3, 0, 0]}
+      fontSize={0.15}
+      color="#ff8888"
+      anchorX="left"
+      anchorY="middle"
+      outlineWidth={0.006}
+      outlineColor="#000000"
+    >
+      {label}
+    </Text>
+  </group>
+);
+
+const SolutionSetPoint = ({
+  point,
+  label,
+}: {
+  point: Vector3;
+  label: string;
+}) => (
+  <group position={point}>
+    <mesh>
+      <sphereGeometry args={[0.14, 16, 12]} />
+      <meshStandardMaterial
+        color="#00ffff"
+        opacity={0.35}
+        transparent
+        wireframe
+      />
+    </mesh>
+    <Text
+      position={[0, 0.2, 0]}
+      fontSize={0.06}
+      color="#88ffff"
+      anchorX="center"
+      anchorY="bottom"
+      outlineWidth={0.002}
+      outlineColor="#000000"
+    >
+      {label}
+    </Text>
+  </group>
+);
+
+const SolutionSetLine = ({
+  point,
+  direction,
+  label,
+}: {
+  point: Vector3;
+  direction: Vector3;
+  label: string;
+}) => {
+  const [start, end] = useMemo(() => {
+    const dir = direction.clone().normalize();
+    return [
+      point.clone().addScaledVector(dir, -6),
+      point.clone().addScaledVector(dir, 6),
+    ];
+  }, [point, direction]);
+  return (
+    <group>
+      <Line points={[start, end]} color="#00ffff" lineWidth={6} />
+      <Text
+        position={point.clone().add(new Vector3(0, 0.15, 0))}
+        fontSize={0.06}
+        color="#88ffff"
+        anchorX="center"
+        anchorY="bottom"
+        outlineWidth={0.002}
+        outlineColor="#000000"
+      >
+        {label}
+      </Text>
+    </group>
+  );
+};
+
+const SolutionSetPlane = ({
+  point,
+  directionA,
+  directionB,
+  label,
+}: {
+  point: Vector3;
+  directionA: Vector3;
+  directionB: Vector3;
+  label: string;
+}) => {
+  const rotation = useMemo(() => {
+    const normal = new Vector3()
+      .crossVectors(directionA, directionB)
+      .normalize();
+    const quaternion = new Quaternion().setFromUnitVectors(
+      new Vector3(0, 0, 1),
+      normal
+    );
+    return new Euler().setFromQuaternion(quaternion);
+  }, [directionA, directionB]);
+  return (
+    <group position={point} rotation={rotation}>
+      <mesh>
+        <planeGeometry args={[6, 6, 12, 12]} />
+        <meshStandardMaterial
+          color="#00ffff"
+          opacity={0.25}
+          transparent
+          side={2}
+          wireframe
+        />
+      </mesh>
+      <Text
+        position={[0, 0, 0.05]}
+        fontSize={0.06}
+        color="#88ffff"
+        anchorX="center"
+        anchorY="middle"
+        outlineWidth={0.002}
+        outlineColor="#000000"
+      >
+        {label}
+      </Text>
+    </group>
+  );
+};
+
+// XR controllers and hands report their pose on pointer events; plain mouse
+// events don't, so those fall back to dragging within a camera-facing plane.
+type GrabPointerEvent = ThreeEvent<PointerEvent> & {
+  pointerPosition?: Vector3;
+  pointerQuaternion?: Quaternion;
+};
+
+interface PlaneGrab {
+  pointerPosition: Vector3;
+  pointerQuaternion: Quaternion | null;
+  dragPlane: Plane;
+  position: Vector3;
+  quaternion: Quaternion;
+}
+
+const readGrabPointer = (e: GrabPointerEvent, dragPlane: Plane) => ({
+  position:
+    e.pointerPosition?.clone() ??
+    e.ray.intersectPlane(dragPlane, new Vector3()) ??
+    e.point.clone(),
+  quaternion: e.pointerQuaternion?.clone() ?? null,
+});
+
+const beginPlaneGrab = (
+  e: GrabPointerEvent,
+  position: Vector3,
+  rotation: Euler
+): PlaneGrab => {
+  const dragPlane = new Plane().setFromNormalAndCoplanarPoint(
+    e.camera.getWorldDirection(new Vector3()),
+    e.point
+  );
+  const pointer = readGrabPointer(e, dragPlane);
+  return {
+    pointerPosition: pointer.position,
+    pointerQuaternion: pointer.quaternion,
+    dragPlane,
+    position: position.clone(),
+    quaternion: new Quaternion().setFromEuler(rotation),
+  };
+};
+
+// Signed distance along `normal` (through `origin`) of the point on that line
+// closest to the pointer ray.
+const slideAlongLine = (
+  origin: Vector3,
+  normal: Vector3,
+  e: GrabPointerEvent
+): number => {
+  const w0 = origin.clone().sub(e.ray.origin);
+  const b = normal.dot(e.ray.direction);
+  const denom = 1 - b * b;
+  if (denom < EPSILON) return 0;
+  return (b * e.ray.direction.dot(w0) - normal.dot(w0)) / denom;
+};
+
+// Moves the grabbed plane rigidly with the pointer, keeping the offset from
+// the grab point so the plane doesn't snap its center to the pointer.
+const updatePlaneGrab = (
+  grab: PlaneGrab,
+  e: GrabPointerEvent,
+  constraint: PlaneGrabConstraint
+): { position: Vector3; rotation: Euler } => {
+  const pointer = readGrabPointer(e, grab.dragPlane);
+  const normal = new Vector3(0, 0, 1).applyQuaternion(grab.quaternion);
+  const delta =
+    pointer.quaternion && grab.pointerQuaternion
+      ? pointer.quaternion
+          .clone()
+          .multiply(grab.pointerQuaternion.clone().invert())
+      : new Quaternion();
+
+  if (constraint === "alongNormal") {
+    const shift = pointer.quaternion
+      ? normal.dot(pointer.position.clone().sub(grab.pointerPosition))
+      : slideAlongLine(grab.pointerPosition, normal, e);
+    return {
+      position: grab.position.clone().addScaledVector(normal, shift),
+      rotation: new Euler().setFromQuaternion(grab.quaternion),
+    };
+  }
+
+  if (constraint === "aboutNormal") {
+    let twist = new Quaternion();
+    if (pointer.quaternion) {
+      // Swing-twist decomposition: keep only the rotation about the normal.
+      const axis = normal
+        .clone()
+        .multiplyScalar(normal.dot(new Vector3(delta.x, delta.y, delta.z)));
+      const candidate = new Quaternion(axis.x, axis.y, axis.z, delta.w);
+      if (candidate.lengthSq() > EPSILON) twist = candidate.normalize();
+    } else {
+      const from = grab.pointerPosition
+        .clone()
+        .sub(grab.position)
+        .projectOnPlane(normal);
+      const to = pointer.position
+        .clone()
+        .sub(grab.position)
+        .projectOnPlane(normal);
+      if (from.lengthSq() > EPSILON && to.lengthSq() > EPSILON) {
+        twist.setFromUnitVectors(from.normalize(), to.normalize());
+      }
+    }
+    return {
+      position: grab.position.clone(),
+      rotation: new Euler().setFromQuaternion(twist.multiply(grab.quaternion)),
+    };
+  }
+
+  const offset = grab.position
+    .clone()
+    .sub(grab.pointerPosition)
+    .applyQuaternion(delta);
+  return {
+    position: pointer.position.clone().add(offset),
+    rotation: new Euler().setFromQuaternion(delta.multiply(grab.quaternion)),
+  };
+};
+
+// For planes placed by a wrapping group that is moved imperatively.
+const GROUP_PLACED_POSITION = new Vector3();
+const GROUP_PLACED_ROTATION = new Euler();
+
+// How far past a plane an intersection hit may lie and still count as being on
+// it: the lines are drawn a few pixels wide, so their hits aren't exact.
+const INTERSECTION_PICK_TOLERANCE = 0.02;
+
+const MathPlane = ({
+  id,
   position,
   rotation,
   color,
   isSelected,
+  isHighlighted = false,
+  isConflicting = false,
+  interactive = true,
   equation,
 }: {
   id: string;
@@ -700,40 +4009,69 @@ const MathPlane = ({
   rotation: Euler;
   color: string;
   isSelected: boolean;
+  isHighlighted?: boolean;
+  isConflicting?: boolean;
+  interactive?: boolean;
   equation?: string;
 }) => {
-  const { updateObjectPosition, selectObject } = useLinePlaneStore();
+  const {
+    updateObjectTransform,
+    selectObject,
+    grabConstraint,
+    beginHistoryTransaction,
+    endHistoryTransaction,
+  } = useLinePlaneStore();
   const meshRef = useRef<Mesh>(null);
-  const isDraggingRef = useRef(false);
+  const grabRef = useRef<PlaneGrab | null>(null);
+  const lockOrbitControls = useOrbitControlsLock();
   const isInRrefMode = useLinePlaneStore((state) => state.mode === "rref");
-  const handleSelect =
-    !isInRrefMode && selectObject ? () => selectObject(id) : () => {};
+  const isMeasuring = useLinePlaneStore((state) => state.isMeasuring);
+  const canEdit = !isInRrefMode && interactive;
+  // While measuring, a click on an intersection drawn across this plane picks
+  // the intersection, not the plane. Intersections further along the ray are
+  // behind the plane and don't count.
+  const isAimedAtIntersection = (e: ThreeEvent<PointerEvent | MouseEvent>) => {
+    if (!isMeasuring) return false;
+    const planeDistance =
+      e.intersections.find((hit) => hit.object === meshRef.current)?.distance ??
+      e.distance;
+    return e.intersections.some(
+      (hit) =>
+        hit.object.userData.isIntersection &&
+        hit.distance <= planeDistance + INTERSECTION_PICK_TOLERANCE
+    );
+  };
+  const handleSelect = (e: ThreeEvent<MouseEvent>) => {
+    if (!canEdit || isAimedAtIntersection(e)) return;
+    // Otherwise the click also reaches whatever is behind the plane.
+    e.stopPropagation();
+    selectObject(id);
+  };
   const displayEquation =
     equation ??
     useLinePlaneStore(
       (state) => state.objects.find((obj) => obj.id === id)?.equation
     );
-  const handlePointerDown = (e: any) => {
-    if (!isInRrefMode && isSelected && !isDraggingRef.current) {
-      e.stopPropagation();
-      isDraggingRef.current = true;
-    }
-  };
-  const handlePointerMove = (e: any) => {
-    if (!isInRrefMode && isSelected && isDraggingRef.current) {
-      e.stopPropagation();
-      updateObjectPosition(id, e.point);
-    }
+  const handlePointerDown = (e: GrabPointerEvent) => {
+    if (!canEdit || grabRef.current || isAimedAtIntersection(e)) return;
+    e.stopPropagation();
+    if (!isSelected) selectObject(id);
+    beginHistoryTransaction();
+    lockOrbitControls(true);
+    grabRef.current = beginPlaneGrab(e, position, rotation);
+    (e.target as Element)?.setPointerCapture?.(e.pointerId);
   };
-  const handlePointerUp = (_e: any) => {
-    if (isDraggingRef.current) {
-      isDraggingRef.current = false;
-    }
+  const handlePointerMove = (e: GrabPointerEvent) => {
+    if (!grabRef.current) return;
+    e.stopPropagation();
+    const next = updatePlaneGrab(grabRef.current, e, grabConstraint);
+    updateObjectTransform(id, next.position, next.rotation);
   };
-  const handlePointerLeave = (_e: any) => {
-    if (isDraggingRef.current) {
-      isDraggingRef.current = false;
-    }
+  const handlePointerUp = () => {
+    if (!grabRef.current) return;
+    grabRef.current = null;
+    lockOrbitControls(false);
+    endHistoryTransaction();
   };
   return (
     <group position={position} rotation={rotation}>
@@ -743,23 +4081,32 @@ const MathPlane = ({
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
-        onPointerLeave={handlePointerLeave}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerUp}
       >
         <planeGeometry args={isInRrefMode ? [4, 4] : [1, 1]} />
         <meshStandardMaterial
           color={color}
-          opacity={0.65}
+          opacity={isHighlighted || isConflicting ? 0.85 : 0.65}
           transparent
           side={2}
-          emissive={isSelected ? color : undefined}
-          emissiveIntensity={0.3}
+          emissive={
+            isConflicting
+              ? "#ff2222"
+              : isHighlighted
+                ? "#ffffff"
+                : isSelected
+                  ? color
+                  : undefined
+          }
+          emissiveIntensity={isHighlighted || isConflicting ? 0.35 : 0.3}
         />
       </mesh>
       <Text
         position={[0, 0, 0.05]}
         rotation={[-Math.PI / 2, 0, 0]}
         fontSize={0.05}
-        color="white"
+        color={isConflicting ? "#ff8888" : isHighlighted ? "#ffd080" : "white"}
         anchorX="center"
         anchorY="middle"
       >
@@ -812,6 +4159,40 @@ const CoordinateSystem = () => (
   </group>
 );
 
+// Panels take XR selects through Interactive and desktop mouse clicks through
+// R3F's DOM events. XR pointers raise onClick as well, so only clicks that
+// come from a real DOM MouseEvent are handled there.
+const Clickable = ({
+  onSelect,
+  children,
+}: {
+  onSelect: () => void;
+  children: React.ReactNode;
+}) => (
+  <Interactive onSelect={onSelect}>
+    <group
+      onClick={(e) => {
+        if (!(e.nativeEvent instanceof MouseEvent)) return;
+        e.stopPropagation();
+        onSelect();
+      }}
+    >
+      {children}
+    </group>
+  </Interactive>
+);
+
+// Keeps the desktop orbit controls from turning the camera while an object is
+// being dragged with the mouse. A no-op when there are no default controls.
+const useOrbitControlsLock = () => {
+  const controls = useThree((state) => state.controls) as {
+    enabled: boolean;
+  } | null;
+  return (locked: boolean) => {
+    if (controls) controls.enabled = !locked;
+  };
+};
+
 const PanelButton = ({
   label,
   position,
@@ -831,7 +4212,7 @@ const PanelButton = ({
   fontSize?: number;
   disabled?: boolean;
 }) => (
-  <Interactive onSelect={disabled ? () => {} : onSelect}>
+  <Clickable onSelect={disabled ? () => {} : onSelect}>
     <group position={position}>
       <mesh>
         <planeGeometry args={[width, height]} />
@@ -852,7 +4233,7 @@ const PanelButton = ({
         {label}
       </Text>
     </group>
-  </Interactive>
+  </Clickable>
 );
 
 const ValueAdjuster = ({
@@ -866,267 +4247,2758 @@ const ValueAdjuster = ({
   rowIndex,
   colIndex,
   paramKey,
+  entryTarget,
+  onValueChange,
 }: {
   label?: string;
   value: number;
   min: number;
   max: number;
-  onChange: (keyOrRow: any, valueOrCol: any, value?: any) => void;
+  onChange?: (keyOrRow: any, valueOrCol: any, value?: any) => void;
   yPos: number;
   isMatrixCell?: boolean;
   rowIndex?: number;
   colIndex?: number;
   paramKey?: keyof PlaneEqParams;
+  // Makes the value tappable for typed entry.
+  entryTarget?: NumericEntryTarget;
+  // For a value that is neither a matrix cell nor a plane parameter.
+  onValueChange?: (value: number) => void;
 }) => {
+  const { numericEntry, beginNumericEntry } = useLinePlaneStore();
+  const isEntering =
+    !!entryTarget &&
+    !!numericEntry &&
+    isSameEntryTarget(numericEntry.target, entryTarget);
   const buttonSize = 0.035;
   const spacing = 0.01;
   const buttonSpacing = 0.015;
   const valueDisplayWidth = 0.06;
   const increment = 0.5;
-  const handleDecrement = () => {
-    const newValue = Math.max(min, value - increment);
-    if (
+  const emitChange = (newValue: number) => {
+    if (onValueChange) {
+      onValueChange(newValue);
+    } else if (
       isMatrixCell &&
       typeof rowIndex === "number" &&
       typeof colIndex === "number"
     ) {
-      onChange(rowIndex, colIndex, newValue);
+      onChange?.(rowIndex, colIndex, newValue);
     } else if (paramKey) {
-      onChange(paramKey, newValue);
+      onChange?.(paramKey, newValue);
+    }
+  };
+  // Typed values may lie outside [min, max]; stepping moves back towards the
+  // range rather than jumping to its edge.
+  const handleDecrement = () => {
+    if (value <= min) return;
+    const newValue = Math.max(min, value - increment);
+    emitChange(newValue);
+  };
+  const handleIncrement = () => {
+    if (value >= max) return;
+    const newValue = Math.min(max, value + increment);
+    emitChange(newValue);
+  };
+  const formatDisplayValue = (val: number) => {
+    if (Math.abs(val * 100 - Math.round(val * 100)) < EPSILON)
+      return `${Number(val.toFixed(2))}`;
+    const fraction = rationalFromNumber(val);
+    return fraction.den <= 100n ? formatScalar(fraction) : val.toFixed(3);
+  };
+  const displayText =
+    isEntering && numericEntry.text
+      ? numericEntry.text.length > 6
+        ? `…${numericEntry.text.slice(-5)}`
+        : numericEntry.text
+      : formatDisplayValue(value);
+  const buttonOffsetX = valueDisplayWidth / 2 + buttonSpacing;
+  return (
+    <group position={[0, yPos, 0.01]}>
+      {label && (
+        <Text
+          position={[-buttonOffsetX - buttonSize / 2 - spacing, 0, 0]}
+          fontSize={0.018}
+          color="white"
+          anchorX="right"
+          anchorY="middle"
+        >
+          {label}:
+        </Text>
+      )}
+      {entryTarget && (
+        <Clickable onSelect={() => beginNumericEntry(entryTarget)}>
+          <mesh position={[0, 0, -0.001]}>
+            <planeGeometry args={[valueDisplayWidth, buttonSize]} />
+            <meshStandardMaterial
+              color={isEntering ? "#2f5f7a" : "#333"}
+              transparent
+              opacity={isEntering ? 0.95 : 0.5}
+              side={2}
+            />
+          </mesh>
+        </Clickable>
+      )}
+      <Text
+        position={[0, 0, 0]}
+        fontSize={displayText.length > 4 ? 0.016 : 0.02}
+        color={isEntering ? "cyan" : "yellow"}
+        anchorX="center"
+        anchorY="middle"
+        maxWidth={valueDisplayWidth}
+      >
+        {displayText}
+      </Text>
+      <Clickable onSelect={handleDecrement}>
+        <mesh position={[-buttonOffsetX, 0, 0]}>
+          <planeGeometry args={[buttonSize, buttonSize]} />
+          <meshStandardMaterial color="#b55" side={2} />
+        </mesh>
+        <Text
+          position={[-buttonOffsetX, 0, 0.001]}
+          fontSize={0.025}
+          color="white"
+          anchorX="center"
+          anchorY="middle"
+        >
+          -
+        </Text>
+      </Clickable>
+      <Clickable onSelect={handleIncrement}>
+        <mesh position={[buttonOffsetX, 0, 0]}>
+          <planeGeometry args={[buttonSize, buttonSize]} />
+          <meshStandardMaterial color="#5b5" side={2} />
+        </mesh>
+        <Text
+          position={[buttonOffsetX, 0, 0.001]}
+          fontSize={0.025}
+          color="white"
+          anchorX="center"
+          anchorY="middle"
+        >
+          +
+        </Text>
+      </Clickable>
+    </group>
+  );
+};
+
+const NUMERIC_KEYPAD_ROWS = [
+  ["7", "8", "9", "/", "("],
+  ["4", "5", "6", "*", ")"],
+  ["1", "2", "3", "-", "Backspace"],
+  ["0", ".", "+", "Clear", "Enter"],
+];
+const NUMERIC_KEYPAD_LABELS: Record<string, string> = {
+  Backspace: "⌫",
+  Clear: "C",
+  Enter: "OK",
+};
+
+// In-XR keypad for the focused numeric entry; the desktop keyboard drives the
+// same entry through useNumericEntryKeyboard.
+const NumericKeypad = () => {
+  const state = useLinePlaneStore();
+  const {
+    numericEntry,
+    editNumericEntry,
+    commitNumericEntry,
+    cancelNumericEntry,
+  } = state;
+  const panelPosition = useMemo(() => new Vector3(0.75, 1.3, -0.85), []);
+  const panelRotation = useMemo(() => new Euler(0, -0.5, 0), []);
+  if (!numericEntry) return null;
+  const keySpacing = 0.07;
+  const current = readNumericEntryTarget(state, numericEntry.target);
+  return (
+    <group position={panelPosition} rotation={panelRotation}>
+      <mesh>
+        <planeGeometry args={[0.4, 0.5]} />
+        <meshStandardMaterial
+          color="#1a2a3a"
+          transparent
+          opacity={0.9}
+          side={2}
+        />
+      </mesh>
+      <Text
+        position={[0, 0.21, 0.01]}
+        fontSize={0.018}
+        color="white"
+        anchorX="center"
+        anchorY="middle"
+      >
+        {describeNumericEntryTarget(state, numericEntry.target)}
+      </Text>
+      <mesh position={[0, 0.165, 0.005]}>
+        <planeGeometry args={[0.34, 0.045]} />
+        <meshStandardMaterial color="#0d1a26" side={2} />
+      </mesh>
+      <Text
+        position={[0.16, 0.165, 0.01]}
+        fontSize={0.022}
+        color={numericEntry.text ? "cyan" : "#778"}
+        anchorX="right"
+        anchorY="middle"
+      >
+        {numericEntry.text || `${Number(current.toFixed(4))}`}
+      </Text>
+      <Text
+        position={[0, 0.125, 0.01]}
+        fontSize={0.014}
+        color="#ff8888"
+        anchorX="center"
+        anchorY="middle"
+        maxWidth={0.36}
+      >
+        {numericEntry.error ?? ""}
+      </Text>
+      {NUMERIC_KEYPAD_ROWS.map((row, r) =>
+        row.map((key, c) => (
+          <PanelButton
+            key={key}
+            label={NUMERIC_KEYPAD_LABELS[key] ?? key}
+            position={[(c - 2) * keySpacing, 0.08 - r * 0.055, 0.01]}
+            onSelect={() =>
+              key === "Enter" ? commitNumericEntry() : editNumericEntry(key)
+            }
+            color={
+              key === "Enter"
+                ? "#4a4"
+                : key in NUMERIC_KEYPAD_LABELS
+                  ? "#a63"
+                  : /\d|\./.test(key)
+                    ? "#446"
+                    : "#557"
+            }
+            width={0.06}
+            height={0.045}
+            fontSize={0.02}
+          />
+        ))
+      )}
+      <PanelButton
+        label="◀ Prev"
+        position={[-0.125, -0.165, 0.01]}
+        onSelect={() => commitNumericEntry("previous")}
+        color="#446"
+        width={0.11}
+        height={0.04}
+        fontSize={0.015}
+      />
+      <PanelButton
+        label="Next ▶"
+        position={[0, -0.165, 0.01]}
+        onSelect={() => commitNumericEntry("next")}
+        color="#446"
+        width={0.11}
+        height={0.04}
+        fontSize={0.015}
+      />
+      <PanelButton
+        label="Cancel"
+        position={[0.125, -0.165, 0.01]}
+        onSelect={cancelNumericEntry}
+        color="#777"
+        width={0.11}
+        height={0.04}
+        fontSize={0.015}
+      />
+      <Text
+        position={[0, -0.215, 0.01]}
+        fontSize={0.012}
+        color="#aab"
+        anchorX="center"
+        anchorY="middle"
+      >
+        Fractions and expressions work: 1/3, -3.25, 2*(1 - 1/4)
+      </Text>
+    </group>
+  );
+};
+
+// Desktop keyboard for the focused numeric entry: type the value, Enter to
+// confirm, Escape to cancel, Tab / Shift+Tab / arrow keys to confirm and move.
+const useNumericEntryKeyboard = () => {
+  useEffect(() => {
+    const moves: Record<string, NumericEntryMove> = {
+      ArrowUp: "up",
+      ArrowDown: "down",
+      ArrowLeft: "left",
+      ArrowRight: "right",
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const {
+        numericEntry,
+        editNumericEntry,
+        commitNumericEntry,
+        cancelNumericEntry,
+      } = useLinePlaneStore.getState();
+      if (
+        !numericEntry ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey ||
+        event.target instanceof HTMLInputElement
+      )
+        return;
+      if (event.key === "Tab")
+        commitNumericEntry(event.shiftKey ? "previous" : "next");
+      else if (event.key in moves) commitNumericEntry(moves[event.key]);
+      else if (event.key === "Enter") commitNumericEntry();
+      else if (event.key === "Escape") cancelNumericEntry();
+      else if (
+        event.key === "Backspace" ||
+        NUMERIC_ENTRY_CHARACTERS.includes(event.key)
+      )
+        editNumericEntry(event.key);
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+};
+
+const UndoRedoButtons = ({
+  position,
+  spacing,
+}: {
+  position: [number, number, number];
+  spacing: number;
+}) => {
+  const { undoStack, redoStack, undo, redo } = useLinePlaneStore();
+  return (
+    <group position={position}>
+      <PanelButton
+        label="Undo"
+        position={[-spacing / 2, 0, 0]}
+        onSelect={undo}
+        color="#557"
+        width={0.08}
+        height={0.035}
+        fontSize={0.015}
+        disabled={undoStack.length === 0}
+      />
+      <PanelButton
+        label="Redo"
+        position={[spacing / 2, 0, 0]}
+        onSelect={redo}
+        color="#557"
+        width={0.08}
+        height={0.035}
+        fontSize={0.015}
+        disabled={redoStack.length === 0}
+      />
+    </group>
+  );
+};
+
+const GRAB_CONSTRAINT_ORDER: PlaneGrabConstraint[] = [
+  "free",
+  "alongNormal",
+  "aboutNormal",
+];
+const GRAB_CONSTRAINT_LABELS: Record<PlaneGrabConstraint, string> = {
+  free: "Grab: Free",
+  alongNormal: "Grab: Slide",
+  aboutNormal: "Grab: Spin",
+};
+
+const ControlPanel = () => {
+  const {
+    objects,
+    selectedObjectId,
+    grabConstraint,
+    addPlane,
+    removeObject,
+    clearAll,
+    setMode,
+    setGrabConstraint,
+    setEditSelectedPlane,
+    isMeasuring,
+    measuredIds,
+    toggleMeasuring,
+  } = useLinePlaneStore();
+  const isPlaneSelected = objects.some(
+    (obj) => obj.id === selectedObjectId && obj.type === "plane"
+  );
+  const panelPosition = useMemo(() => new Vector3(0, 1.5, -1.0), []);
+  const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
+  const handleClearAll = () => {
+    clearAll();
+  };
+  const handleSetupRref = () => {
+    setMode("rref");
+  };
+  return (
+    <group position={panelPosition} rotation={panelRotation}>
+      <mesh position={[0, -0.105, 0]}>
+        <planeGeometry args={[0.4, 0.63]} />
+        <meshStandardMaterial
+          color="#22224a"
+          transparent
+          opacity={0.8}
+          side={2}
+        />
+      </mesh>
+      <Text
+        position={[0, 0.17, 0.01]}
+        fontSize={0.025}
+        color="white"
+        anchorX="center"
+        anchorY="middle"
+      >
+        Controls
+      </Text>
+      <UndoRedoButtons position={[0, 0.17, 0.01]} spacing={0.3} />
+      <PanelButton
+        label="Add Random Plane"
+        position={[0, 0.1, 0.01]}
+        onSelect={() => addPlane()}
+      />
+      {selectedObjectId && (
+        <PanelButton
+          label="Delete Selected"
+          position={isPlaneSelected ? [-0.09, 0.05, 0.01] : [0, 0.05, 0.01]}
+          onSelect={() => removeObject(selectedObjectId)}
+          color="#a44"
+          width={isPlaneSelected ? 0.17 : 0.3}
+          fontSize={isPlaneSelected ? 0.016 : 0.02}
+        />
+      )}
+      {isPlaneSelected && (
+        <PanelButton
+          label="Edit Selected"
+          position={[0.09, 0.05, 0.01]}
+          onSelect={() => {
+            setEditSelectedPlane(true);
+            setMode("equation");
+          }}
+          color="#276"
+          width={0.17}
+          fontSize={0.016}
+        />
+      )}
+      <PanelButton
+        label="Clear All"
+        position={[-0.09, 0.0, 0.01]}
+        onSelect={handleClearAll}
+        color="#6f2ca5"
+        width={0.17}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label={GRAB_CONSTRAINT_LABELS[grabConstraint]}
+        position={[0.09, 0.0, 0.01]}
+        onSelect={() =>
+          setGrabConstraint(
+            GRAB_CONSTRAINT_ORDER[
+              (GRAB_CONSTRAINT_ORDER.indexOf(grabConstraint) + 1) %
+                GRAB_CONSTRAINT_ORDER.length
+            ]
+          )
+        }
+        color="#a63"
+        width={0.17}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Define Plane Eq"
+        position={[-0.09, -0.05, 0.01]}
+        onSelect={() => setMode("equation")}
+        color="#276"
+        width={0.17}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Define Line"
+        position={[0.09, -0.05, 0.01]}
+        onSelect={() => setMode("line")}
+        color="#267"
+        width={0.17}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Setup RREF"
+        position={[-0.09, -0.12, 0.01]}
+        onSelect={handleSetupRref}
+        color="#088"
+        width={0.17}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Lessons"
+        position={[0.09, -0.12, 0.01]}
+        onSelect={() => setMode("lessons")}
+        color="#3a6a3a"
+        width={0.17}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Matrix Transform"
+        position={[-0.09, -0.17, 0.01]}
+        onSelect={() => setMode("transform")}
+        color="#648"
+        width={0.17}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Eigenvectors"
+        position={[0.09, -0.17, 0.01]}
+        onSelect={() => setMode("eigen")}
+        color="#846"
+        width={0.17}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Vectors"
+        position={[-0.09, -0.22, 0.01]}
+        onSelect={() => setMode("vector")}
+        color="#468"
+        width={0.17}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Span"
+        position={[0.09, -0.22, 0.01]}
+        onSelect={() => setMode("span")}
+        color="#486"
+        width={0.17}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Problem Generator"
+        position={[0, -0.27, 0.01]}
+        onSelect={() => setMode("generator")}
+        color="#648"
+        width={0.35}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label={isMeasuring ? "Stop Measuring" : "Measure"}
+        position={[0, -0.32, 0.01]}
+        onSelect={toggleMeasuring}
+        color={isMeasuring ? "#a63" : "#587"}
+        width={0.35}
+        fontSize={0.016}
+      />
+      {isMeasuring && (
+        <Text
+          position={[0, -0.37, 0.01]}
+          fontSize={0.013}
+          color="#ffe080"
+          anchorX="center"
+          anchorY="middle"
+          maxWidth={0.36}
+        >
+          {measuredIds.length < 2
+            ? `Pick two: planes, lines, intersections or vector tips (${measuredIds.length}/2)`
+            : "Pick again to measure from the newest pick"}
+        </Text>
+      )}
+    </group>
+  );
+};
+
+const EquationPanel = () => {
+  const {
+    objects,
+    selectedObjectId,
+    planeParams,
+    editSelectedPlane,
+    setPlaneParam,
+    spawnFromEquation,
+    setEditSelectedPlane,
+    updatePlaneCoefficient,
+    setMode,
+  } = useLinePlaneStore();
+  const selectedPlane = objects.find(
+    (obj): obj is PlaneObject =>
+      obj.id === selectedObjectId && obj.type === "plane"
+  );
+  const isEditing = editSelectedPlane && !!selectedPlane;
+  const values = isEditing ? selectedPlane.coefficients : planeParams;
+  const handleChange = (param: keyof PlaneEqParams, value: number) =>
+    isEditing
+      ? updatePlaneCoefficient(selectedPlane.id, param, value)
+      : setPlaneParam(param, value);
+  const panelPosition = useMemo(() => new Vector3(0, 1.5, -1.0), []);
+  const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
+  return (
+    <group position={panelPosition} rotation={panelRotation}>
+      <mesh>
+        <planeGeometry args={[0.45, 0.5]} />
+        <meshStandardMaterial
+          color="#2a224a"
+          transparent
+          opacity={0.85}
+          side={2}
+        />
+      </mesh>
+      <Text
+        position={[0, 0.22, 0.01]}
+        fontSize={0.025}
+        color="white"
+        anchorX="center"
+        anchorY="middle"
+      >
+        {isEditing ? "Edit Selected Plane" : "Define Plane Equation"}
+      </Text>
+      <PanelButton
+        label="New Plane"
+        position={[-0.105, 0.175, 0.01]}
+        onSelect={() => setEditSelectedPlane(false)}
+        color={isEditing ? "#446" : "#2a5"}
+        width={0.2}
+        height={0.035}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Edit Selected"
+        position={[0.105, 0.175, 0.01]}
+        onSelect={() => setEditSelectedPlane(true)}
+        color={isEditing ? "#2a5" : "#446"}
+        width={0.2}
+        height={0.035}
+        fontSize={0.016}
+        disabled={!selectedPlane}
+      />
+      <>
+        <Text
+          position={[-0.2, 0.13, 0.01]}
+          fontSize={0.018}
+          color="salmon"
+          anchorX="left"
+        >
+          Coefficients (a, b, c)
+        </Text>
+        <ValueAdjuster
+          label="a "
+          value={values.paramA}
+          min={-10}
+          max={10}
+          onChange={handleChange}
+          paramKey="paramA"
+          entryTarget={{ kind: "planeParam", param: "paramA" }}
+          yPos={0.09}
+        />
+        <ValueAdjuster
+          label="b "
+          value={values.paramB}
+          min={-10}
+          max={10}
+          onChange={handleChange}
+          paramKey="paramB"
+          entryTarget={{ kind: "planeParam", param: "paramB" }}
+          yPos={0.04}
+        />
+        <ValueAdjuster
+          label="c "
+          value={values.paramC}
+          min={-10}
+          max={10}
+          onChange={handleChange}
+          paramKey="paramC"
+          entryTarget={{ kind: "planeParam", param: "paramC" }}
+          yPos={-0.01}
+        />
+        <Text
+          position={[-0.2, -0.06, 0.01]}
+          fontSize={0.018}
+          color="gold"
+          anchorX="left"
+        >
+          Constant d (ax+by+cz=d)
+        </Text>
+        <ValueAdjuster
+          label="d"
+          value={values.paramD}
+          min={-10}
+          max={10}
+          onChange={handleChange}
+          paramKey="paramD"
+          entryTarget={{ kind: "planeParam", param: "paramD" }}
+          yPos={-0.1}
+        />
+      </>
+      {isEditing ? (
+        <PanelButton
+          label="Done Editing"
+          position={[0, -0.16, 0.01]}
+          onSelect={() => setEditSelectedPlane(false)}
+          color="#2a5"
+          width={0.25}
+        />
+      ) : (
+        <PanelButton
+          label="Spawn Plane"
+          position={[0, -0.16, 0.01]}
+          onSelect={spawnFromEquation}
+          color="#2a5"
+          width={0.25}
+        />
+      )}
+      <PanelButton
+        label="Back to Controls"
+        position={[0, -0.21, 0.01]}
+        onSelect={() => setMode("random")}
+        color="#777"
+        width={0.25}
+      />
+    </group>
+  );
+};
+
+const TRANSFORM_ANIMATION_SECONDS = 1.5;
+
+// Blends the identity into the target map, (1 - t)·I + t·M, so the scene can
+// morph continuously from the untransformed state.
+const interpolateLinearMap = (matrix: Matrix, t: number): Matrix3 => {
+  const entry = (r: number, c: number) =>
+    (1 - t) * (r === c ? 1 : 0) + t * (matrix[r]?.[c] ?? 0);
+  return new Matrix3().set(
+    entry(0, 0),
+    entry(0, 1),
+    entry(0, 2),
+    entry(1, 0),
+    entry(1, 1),
+    entry(1, 2),
+    entry(2, 0),
+    entry(2, 1),
+    entry(2, 2)
+  );
+};
+
+// Points map by M, normals by the inverse transpose of M.
+const transformPlaneObject = (
+  object: PlaneObject,
+  map: Matrix3
+): { position: Vector3; rotation: Euler; equation: string } | null => {
+  if (Math.abs(map.determinant()) < EPSILON) return null;
+  const normalMap = map.clone().invert().transpose();
+  const normal = new Vector3(0, 0, 1)
+    .applyEuler(object.rotation)
+    .applyMatrix3(normalMap)
+    .normalize();
+  const position = object.position.clone().applyMatrix3(map);
+  const rotation = new Euler().setFromQuaternion(
+    new Quaternion().setFromUnitVectors(new Vector3(0, 0, 1), normal)
+  );
+  const d = normal.dot(position);
+  const equation = `${normal.x.toFixed(2)}x + ${normal.y.toFixed(2)}y + ${normal.z.toFixed(2)}z = ${d.toFixed(2)}`;
+  return { position, rotation, equation };
+};
+
+const describeDeterminant = (det: number): string => {
+  if (Math.abs(det) < EPSILON) return "det = 0: space is flattened";
+  const flipped = det < 0 ? ", orientation flipped" : "";
+  return `det = ${det.toFixed(2)}: volume ×${Math.abs(det).toFixed(2)}${flipped}`;
+};
+
+interface EigenAnalysis {
+  realEigenvalues: {
+    value: number;
+    multiplicity: number;
+    vectors: Vector3[];
+  }[];
+  complexPairs: { re: number; im: number }[];
+}
+
+// Roots of λ³ + aλ² + bλ + c via the depressed cubic t³ + pt + q (λ = t - a/3).
+const solveCubic = (
+  a: number,
+  b: number,
+  c: number
+): { real: number[]; complex: { re: number; im: number }[] } => {
+  const shift = -a / 3;
+  const p = b - (a * a) / 3;
+  const q = (2 * a * a * a) / 27 - (a * b) / 3 + c;
+  const discriminant = (q * q) / 4 + (p * p * p) / 27;
+  if (Math.abs(discriminant) < 1e-10) {
+    const u = Math.cbrt(-q / 2);
+    return { real: [2 * u + shift, -u + shift, -u + shift], complex: [] };
+  }
+  if (discriminant > 0) {
+    const sqrtD = Math.sqrt(discriminant);
+    const u = Math.cbrt(-q / 2 + sqrtD);
+    const v = Math.cbrt(-q / 2 - sqrtD);
+    return {
+      real: [u + v + shift],
+      complex: [
+        { re: -(u + v) / 2 + shift, im: (Math.sqrt(3) / 2) * Math.abs(u - v) },
+      ],
+    };
+  }
+  const r = 2 * Math.sqrt(-p / 3);
+  const phi = Math.acos(
+    Math.min(1, Math.max(-1, ((3 * q) / (2 * p)) * Math.sqrt(-3 / p)))
+  );
+  return {
+    real: [0, 1, 2].map(
+      (k) => r * Math.cos(phi / 3 - (2 * Math.PI * k) / 3) + shift
+    ),
+    complex: [],
+  };
+};
+
+// Rounds values like 1.9999999998 back to 2 so the null-space reduction of
+// A - λI sees exact zeros.
+const snapEigenvalue = (value: number): number => {
+  const rational = rationalFromNumber(value);
+  const snapped = Number(rational.num) / Number(rational.den);
+  return rational.den <= 1000n && Math.abs(snapped - value) < 1e-7
+    ? snapped
+    : value;
+};
+
+const computeEigenAnalysis = (matrix: Matrix): EigenAnalysis => {
+  const m = interpolateLinearMap(matrix, 1);
+  const e = m.elements; // column-major
+  const trace = e[0] + e[4] + e[8];
+  const minors =
+    e[0] * e[4] -
+    e[3] * e[1] +
+    (e[0] * e[8] - e[6] * e[2]) +
+    (e[4] * e[8] - e[7] * e[5]);
+  const roots = solveCubic(-trace, minors, -m.determinant());
+
+  const clusters: { value: number; multiplicity: number }[] = [];
+  roots.real
+    .map(snapEigenvalue)
+    .sort((x, y) => x - y)
+    .forEach((value) => {
+      const last = clusters[clusters.length - 1];
+      if (
+        last &&
+        Math.abs(last.value - value) < 1e-6 * Math.max(1, Math.abs(value))
+      ) {
+        last.multiplicity++;
+      } else {
+        clusters.push({ value, multiplicity: 1 });
+      }
+    });
+
+  const realEigenvalues = clusters.map(({ value, multiplicity }) => {
+    const shifted = matrix.map((row, r) => [
+      ...row.map((entry, c) => (r === c ? entry - value : entry)),
+      0,
+    ]);
+    const steps = calculateRrefSteps(shifted, "float");
+    const reduced = steps[steps.length - 1].matrix;
+    const vectors = extractGeneralSolution(
+      reduced,
+      3,
+      floatField
+    ).directions.map((direction) =>
+      new Vector3(...direction.map(scalarToNumber)).normalize()
+    );
+    return { value, multiplicity, vectors };
+  });
+  return {
+    realEigenvalues,
+    complexPairs: roots.complex.map(({ re, im }) => ({
+      re: snapEigenvalue(re),
+      im: snapEigenvalue(im),
+    })),
+  };
+};
+
+const formatVector = (v: Vector3, digits = 2) =>
+  `(${v.x.toFixed(digits)}, ${v.y.toFixed(digits)}, ${v.z.toFixed(digits)})`;
+
+const describeEigenAnalysis = (analysis: EigenAnalysis): string[] => [
+  ...analysis.realEigenvalues.map((eig) => {
+    const multiplicity = eig.multiplicity > 1 ? ` (×${eig.multiplicity})` : "";
+    const vectors =
+      eig.vectors.length > 0
+        ? eig.vectors.map((v) => formatVector(v)).join(", ")
+        : "no eigenvector found";
+    return `λ = ${formatScalar(eig.value)}${multiplicity}: ${vectors}`;
+  }),
+  ...analysis.complexPairs.map(
+    (pair) =>
+      `λ = ${formatScalar(pair.re)} ± ${formatScalar(pair.im)}i (complex pair: rotation, no real direction)`
+  ),
+];
+
+const SPAN_VECTOR_LIMITS = { min: 1, max: 4 };
+const SPAN_VECTOR_COLORS = ["#ff6666", "#66ff66", "#6699ff", "#ffcc33"];
+
+interface SpanAnalysis {
+  rank: number;
+  // Indices of the pivot-column vectors, a basis of the span.
+  basis: number[];
+  // Each relation is sum(c_i · v_i) = 0 with c_dependent = 1.
+  relations: { dependent: number; coefficients: Scalar[] }[];
+}
+
+// The vectors as columns of a homogeneous system [A | 0].
+const spanMatrix = (vectors: number[][]): Matrix =>
+  [0, 1, 2].map((r) => [...vectors.map((v) => v[r]), 0]);
+
+// Pivot columns of the RREF pick a basis of the span, and each null-space
+// direction of A is a linear combination that makes the vectors dependent.
+const analyzeSpan = (vectors: number[][]): SpanAnalysis => {
+  const matrix = spanMatrix(vectors);
+  const history = calculateRrefSteps(matrix);
+  const finalMatrix =
+    history.length > 0 ? history[history.length - 1].matrix : matrix;
+  const analysis = analyzeRref(finalMatrix);
+  const solution = analysis.generalSolution;
+  const free = new Set(solution?.freeVariables ?? []);
+  return {
+    rank: analysis.rank,
+    basis: vectors.map((_, i) => i).filter((i) => !free.has(i)),
+    relations: solution
+      ? solution.freeVariables.map((dependent, k) => ({
+          dependent,
+          coefficients: solution.directions[k],
+        }))
+      : [],
+  };
+};
+
+const formatSpanRelation = (
+  relation: SpanAnalysis["relations"][number],
+  names: string[]
+): string => {
+  const terms: string[] = [];
+  relation.coefficients.forEach((c, i) => {
+    if (i === relation.dependent) return;
+    const value = -scalarToNumber(c);
+    if (Math.abs(value) < EPSILON) return;
+    const magnitude = formatScalar(value < 0 ? c : negateScalar(c));
+    const term = `${magnitude === "1" ? "" : `${magnitude}·`}${names[i]}`;
+    if (terms.length === 0) terms.push(value < 0 ? `−${term}` : term);
+    else terms.push(`${value < 0 ? "−" : "+"} ${term}`);
+  });
+  return `${names[relation.dependent]} = ${terms.length > 0 ? terms.join(" ") : "0"}`;
+};
+
+const describeSpan = (analysis: SpanAnalysis, count: number): string => {
+  const shape =
+    analysis.rank === 0
+      ? "just the origin {0}"
+      : analysis.rank === 1
+        ? "a line through the origin"
+        : analysis.rank === 2
+          ? "a plane through the origin"
+          : "all of R³";
+  const independence =
+    analysis.rank === count ? "linearly independent" : "linearly dependent";
+  return `Rank ${analysis.rank}: ${independence}, span is ${shape}`;
+};
+
+const VectorArrow = ({
+  tail = new Vector3(),
+  head,
+  color,
+  label,
+  lineWidth = 4,
+}: {
+  tail?: Vector3;
+  head: Vector3;
+  color: string;
+  label?: string;
+  lineWidth?: number;
+}) => {
+  const direction = head.clone().sub(tail);
+  const length = direction.length();
+  if (length < EPSILON) return null;
+  direction.divideScalar(length);
+  const coneLength = Math.min(0.08, length * 0.4);
+  const shaftEnd = head.clone().addScaledVector(direction, -coneLength);
+  const coneRotation = new Euler().setFromQuaternion(
+    new Quaternion().setFromUnitVectors(new Vector3(0, 1, 0), direction)
+  );
+  return (
+    <group>
+      <Line points={[tail, shaftEnd]} color={color} lineWidth={lineWidth} />
+      <mesh
+        position={head.clone().addScaledVector(direction, -coneLength / 2)}
+        rotation={coneRotation}
+      >
+        <coneGeometry args={[coneLength / 3, coneLength, 12]} />
+        <meshStandardMaterial color={color} />
+      </mesh>
+      {label && (
+        <Text
+          position={head.clone().addScaledVector(direction, 0.06)}
+          fontSize={0.045}
+          color={color}
+          anchorX="center"
+          anchorY="bottom"
+          outlineWidth={0.002}
+          outlineColor="#000000"
+        >
+          {label}
+        </Text>
+      )}
+    </group>
+  );
+};
+
+const UNIT_Y = new Vector3(0, 1, 0);
+const UNIT_SHAFT_POINTS = [new Vector3(), UNIT_Y];
+
+// A VectorArrow posed through a ref each frame: the shaft is a unit line and
+// the cone a unit cone, turned and scaled onto the tail-to-head vector.
+const poseMovingArrow = (arrow: Group, tail: Vector3, head: Vector3): void => {
+  const [shaft, cone] = arrow.children;
+  const direction = head.clone().sub(tail);
+  const length = direction.length();
+  arrow.visible = length >= EPSILON;
+  if (!arrow.visible) return;
+  direction.divideScalar(length);
+  const coneLength = Math.min(0.08, length * 0.4);
+  shaft.position.copy(tail);
+  shaft.quaternion.setFromUnitVectors(UNIT_Y, direction);
+  shaft.scale.setScalar(length - coneLength);
+  cone.position.copy(head).addScaledVector(direction, -coneLength / 2);
+  cone.quaternion.setFromUnitVectors(UNIT_Y, direction);
+  cone.scale.setScalar(coneLength);
+};
+
+const MovingArrow = ({
+  arrowRef,
+  color,
+  lineWidth = 4,
+}: {
+  arrowRef: React.RefObject<Group | null>;
+  color: string;
+  lineWidth?: number;
+}) => (
+  <group ref={arrowRef}>
+    <group>
+      <Line points={UNIT_SHAFT_POINTS} color={color} lineWidth={lineWidth} />
+    </group>
+    <mesh>
+      <coneGeometry args={[1 / 3, 1, 12]} />
+      <meshStandardMaterial color={color} />
+    </mesh>
+  </group>
+);
+
+const EIGEN_DIRECTION_COLORS = ["#ffcc00", "#00ffaa", "#ff66cc"];
+const EIGEN_SAMPLE_SECONDS = 2.5;
+
+const EigenView = () => {
+  const { transformMatrix, eigenSampleVector } = useLinePlaneStore();
+  const analysis = useMemo(
+    () => computeEigenAnalysis(transformMatrix),
+    [transformMatrix]
+  );
+  const map = useMemo(
+    () => interpolateLinearMap(transformMatrix, 1),
+    [transformMatrix]
+  );
+  const eigenLines = useMemo(
+    () =>
+      analysis.realEigenvalues.flatMap((eig, i) =>
+        eig.vectors.map((v, j) => ({
+          key: `eigen-${i}-${j}`,
+          line: new Line3(
+            v.clone().multiplyScalar(-1.5),
+            v.clone().multiplyScalar(1.5)
+          ),
+          label: `λ = ${formatScalar(eig.value)}`,
+          color: EIGEN_DIRECTION_COLORS[i % EIGEN_DIRECTION_COLORS.length],
+        }))
+      ),
+    [analysis]
+  );
+  const sample = new Vector3(...eigenSampleVector);
+  const mapped = sample.clone().applyMatrix3(map);
+  const movingRef = useRef<Group>(null);
+  useFrame((state) => {
+    if (!movingRef.current) return;
+    const cycle = (state.clock.elapsedTime / EIGEN_SAMPLE_SECONDS) % 2;
+    const phase = cycle < 1 ? cycle : 2 - cycle;
+    const eased = phase * phase * (3 - 2 * phase);
+    poseMovingArrow(
+      movingRef.current,
+      new Vector3(),
+      sample.clone().lerp(mapped, eased)
+    );
+  });
+  const isStretchedOnly =
+    sample.lengthSq() > EPSILON &&
+    new Vector3().crossVectors(sample, mapped).lengthSq() <
+      EPSILON * Math.max(1, mapped.lengthSq());
+
+  return (
+    <group>
+      {eigenLines.map((eigenLine) => (
+        <IntersectionLine
+          key={eigenLine.key}
+          line={eigenLine.line}
+          label={eigenLine.label}
+          color={eigenLine.color}
+          labelColor={eigenLine.color}
+        />
+      ))}
+      <VectorArrow head={sample} color="#ffffff" label="v" lineWidth={3} />
+      <VectorArrow head={mapped} color="#ff9900" label="Av" lineWidth={3} />
+      <MovingArrow arrowRef={movingRef} color="#ffdd88" lineWidth={5} />
+      <Text
+        position={[0, -0.15, 0.5]}
+        fontSize={0.05}
+        color={isStretchedOnly ? "lightgreen" : "white"}
+        anchorX="center"
+        outlineWidth={0.002}
+        outlineColor="#000000"
+      >
+        {isStretchedOnly
+          ? "Av is parallel to v: v lies on an eigen-direction (only stretched)"
+          : "Av leaves the line through v: v is not an eigenvector"}
+      </Text>
+    </group>
+  );
+};
+
+const EigenPanel = () => {
+  const {
+    transformMatrix,
+    eigenSampleVector,
+    updateTransformCell,
+    setEigenSampleComponent,
+    setEigenSampleVector,
+    setMode,
+  } = useLinePlaneStore();
+  const panelPosition = useMemo(() => new Vector3(0, 1.45, -1.0), []);
+  const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
+  const analysis = useMemo(
+    () => computeEigenAnalysis(transformMatrix),
+    [transformMatrix]
+  );
+  const lines = describeEigenAnalysis(analysis);
+  const eigenvectors = analysis.realEigenvalues.flatMap((eig) => eig.vectors);
+  const sampleNextEigenvector = () => {
+    if (eigenvectors.length === 0) return;
+    const current = new Vector3(...eigenSampleVector).normalize();
+    const index = eigenvectors.findIndex(
+      (v) => Math.abs(Math.abs(v.dot(current)) - 1) < EPSILON
+    );
+    const next = eigenvectors[(index + 1) % eigenvectors.length];
+    setEigenSampleVector([next.x, next.y, next.z]);
+  };
+  return (
+    <group position={panelPosition} rotation={panelRotation}>
+      <mesh>
+        <planeGeometry args={[0.7, 0.7]} />
+        <meshStandardMaterial
+          color="#3a2a4a"
+          transparent
+          opacity={0.85}
+          side={2}
+        />
+      </mesh>
+      <Text
+        position={[0, 0.31, 0.01]}
+        fontSize={0.025}
+        color="white"
+        anchorX="center"
+        anchorY="middle"
+      >
+        Eigenvalues & Eigenvectors
+      </Text>
+      <Matrix3Editor
+        matrix={transformMatrix}
+        onChange={updateTransformCell}
+        yPos={0.24}
+      />
+      {lines.map((line, i) => (
+        <Text
+          key={`eig-${i}`}
+          position={[0, 0.05 - i * 0.03, 0.01]}
+          fontSize={0.016}
+          color="#ffd080"
+          anchorX="center"
+          maxWidth={0.65}
+        >
+          {line}
+        </Text>
+      ))}
+      {["v.x", "v.y", "v.z"].map((label, i) => (
+        <group key={label} position={[(i - 1) * 0.2, -0.1, 0]}>
+          <ValueAdjuster
+            label={label}
+            value={eigenSampleVector[i]}
+            min={-10}
+            max={10}
+            onChange={(_row: number, col: number, value: number) =>
+              setEigenSampleComponent(col, value)
+            }
+            yPos={0}
+            isMatrixCell={true}
+            rowIndex={0}
+            colIndex={i}
+          />
+        </group>
+      ))}
+      <PanelButton
+        label="Sample v = Next Eigenvector"
+        position={[0, -0.17, 0.01]}
+        onSelect={sampleNextEigenvector}
+        color="#a63"
+        width={0.4}
+        disabled={eigenvectors.length === 0}
+      />
+      <PanelButton
+        label="Back to Controls"
+        position={[0, -0.23, 0.01]}
+        onSelect={() => setMode("random")}
+        color="#777"
+        width={0.25}
+      />
+    </group>
+  );
+};
+
+// Pointer handlers that drag `anchor` within the plane through it facing the
+// camera, so a handle follows the pointer regardless of what lies behind it.
+const useCameraPlaneDrag = (
+  anchor: Vector3,
+  onDrag: (point: Vector3) => void
+) => {
+  const dragPlaneRef = useRef<Plane | null>(null);
+  const { beginHistoryTransaction, endHistoryTransaction } =
+    useLinePlaneStore();
+  const lockOrbitControls = useOrbitControlsLock();
+  const endDrag = () => {
+    if (!dragPlaneRef.current) return;
+    dragPlaneRef.current = null;
+    lockOrbitControls(false);
+    endHistoryTransaction();
+  };
+  return {
+    onPointerDown: (e: ThreeEvent<PointerEvent>) => {
+      e.stopPropagation();
+      beginHistoryTransaction();
+      lockOrbitControls(true);
+      const normal = e.camera.getWorldDirection(new Vector3());
+      dragPlaneRef.current = new Plane().setFromNormalAndCoplanarPoint(
+        normal,
+        anchor
+      );
+      (e.target as Element)?.setPointerCapture?.(e.pointerId);
+    },
+    onPointerMove: (e: ThreeEvent<PointerEvent>) => {
+      if (!dragPlaneRef.current) return;
+      e.stopPropagation();
+      onDrag(
+        e.ray.intersectPlane(dragPlaneRef.current, new Vector3()) ?? e.point
+      );
+    },
+    onPointerUp: endDrag,
+    onPointerCancel: endDrag,
+    onPointerLeave: endDrag,
+  };
+};
+
+const MathVector = ({
+  vector,
+  isSelected,
+}: {
+  vector: VectorObject;
+  isSelected: boolean;
+}) => {
+  const { selectObject, updateVectorHead } = useLinePlaneStore();
+  const head = vector.position.clone().add(vector.components);
+  const canDrag = isSelected && !vector.derivation;
+  const headDrag = useCameraPlaneDrag(head, (point) =>
+    updateVectorHead(vector.id, point)
+  );
+  return (
+    <group>
+      <group onClick={() => selectObject(vector.id)}>
+        <VectorArrow
+          tail={vector.position}
+          head={head}
+          color={vector.color}
+          label={vector.name}
+          lineWidth={isSelected ? 6 : 4}
+        />
+      </group>
+      {isSelected && (
+        <Text
+          position={head.clone().add(new Vector3(0, -0.06, 0))}
+          fontSize={0.035}
+          color="white"
+          anchorX="center"
+          anchorY="top"
+          outlineWidth={0.002}
+          outlineColor="#000000"
+        >
+          {vector.equation}
+        </Text>
+      )}
+      {canDrag && (
+        <mesh position={head} {...headDrag}>
+          <sphereGeometry args={[0.035, 16, 16]} />
+          <meshStandardMaterial
+            color={vector.color}
+            transparent
+            opacity={0.5}
+            emissive={vector.color}
+            emissiveIntensity={0.4}
+          />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+const VectorPanel = () => {
+  const {
+    objects,
+    selectedObjectId,
+    selectedVectorIds,
+    vectorParams,
+    vectorScalar,
+    setVectorParam,
+    setVectorScalar,
+    spawnVectorFromComponents,
+    addDerivedVector,
+    removeObject,
+    setMode,
+  } = useLinePlaneStore();
+  const panelPosition = useMemo(() => new Vector3(0, 1.45, -1.0), []);
+  const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
+  const selectedNames = selectedVectorIds.map(
+    (id) =>
+      objects.find(
+        (obj): obj is VectorObject => obj.id === id && obj.type === "vector"
+      )?.name ?? "?"
+  );
+  const hasOne = selectedVectorIds.length >= 1;
+  const hasTwo = selectedVectorIds.length >= 2;
+  const [a = "a", b = "b"] = selectedNames;
+  return (
+    <group position={panelPosition} rotation={panelRotation}>
+      <mesh>
+        <planeGeometry args={[0.6, 0.5]} />
+        <meshStandardMaterial
+          color="#1f3a4a"
+          transparent
+          opacity={0.85}
+          side={2}
+        />
+      </mesh>
+      <Text
+        position={[0, 0.21, 0.01]}
+        fontSize={0.025}
+        color="white"
+        anchorX="center"
+        anchorY="middle"
+      >
+        Vectors
+      </Text>
+      {["x", "y", "z"].map((label, i) => (
+        <group key={label} position={[(i - 1) * 0.18, 0.15, 0]}>
+          <ValueAdjuster
+            label={label}
+            value={vectorParams[i]}
+            min={-10}
+            max={10}
+            onChange={(_row: number, col: number, value: number) =>
+              setVectorParam(col, value)
+            }
+            yPos={0}
+            isMatrixCell={true}
+            rowIndex={0}
+            colIndex={i}
+          />
+        </group>
+      ))}
+      <PanelButton
+        label="Spawn Vector"
+        position={[0, 0.09, 0.01]}
+        onSelect={spawnVectorFromComponents}
+        color="#276"
+        width={0.3}
+      />
+      <Text
+        position={[0, 0.04, 0.01]}
+        fontSize={0.016}
+        color="#ffd080"
+        anchorX="center"
+        anchorY="middle"
+        maxWidth={0.55}
+      >
+        {hasOne
+          ? `Selected: ${selectedNames.join(", ")}`
+          : "Select one or two vectors to combine them"}
+      </Text>
+      <PanelButton
+        label={`${a} + ${b}`}
+        position={[-0.14, -0.01, 0.01]}
+        onSelect={() => addDerivedVector("sum")}
+        color="#a63"
+        width={0.25}
+        disabled={!hasTwo}
+      />
+      <PanelButton
+        label={`${a} × ${b}`}
+        position={[0.14, -0.01, 0.01]}
+        onSelect={() => addDerivedVector("cross")}
+        color="#a36"
+        width={0.25}
+        disabled={!hasTwo}
+      />
+      <PanelButton
+        label={`proj ${a} onto ${b} (dot)`}
+        position={[0, -0.06, 0.01]}
+        onSelect={() => addDerivedVector("projection")}
+        color="#639"
+        width={0.4}
+        disabled={!hasTwo}
+      />
+      <ValueAdjuster
+        label="k"
+        value={vectorScalar}
+        min={-10}
+        max={10}
+        onValueChange={setVectorScalar}
+        yPos={-0.11}
+      />
+      <PanelButton
+        label={`k · ${hasTwo ? b : a}`}
+        position={[0.19, -0.11, 0.01]}
+        onSelect={() => addDerivedVector("scale")}
+        color="#36a"
+        width={0.16}
+        disabled={!hasOne}
+      />
+      {selectedObjectId && (
+        <PanelButton
+          label="Delete Selected"
+          position={[0, -0.16, 0.01]}
+          onSelect={() => removeObject(selectedObjectId)}
+          color="#a44"
+          width={0.3}
+        />
+      )}
+      <PanelButton
+        label="Back to Controls"
+        position={[0, -0.21, 0.01]}
+        onSelect={() => setMode("random")}
+        color="#777"
+        width={0.25}
+      />
+    </group>
+  );
+};
+
+const MathLine = ({
+  line,
+  isSelected,
+}: {
+  line: LineObject;
+  isSelected: boolean;
+}) => {
+  const { selectObject, updateObjectPosition } = useLinePlaneStore();
+  const [start, end] = useMemo(() => {
+    const dir = line.direction.clone().normalize();
+    return [
+      line.position.clone().addScaledVector(dir, -3),
+      line.position.clone().addScaledVector(dir, 3),
+    ];
+  }, [line.position, line.direction]);
+  const pointDrag = useCameraPlaneDrag(line.position, (point) =>
+    updateObjectPosition(line.id, point)
+  );
+  return (
+    <group>
+      <group onClick={() => selectObject(line.id)}>
+        <Line
+          points={[start, end]}
+          color={line.color}
+          lineWidth={isSelected ? 5 : 3}
+        />
+        <mesh position={line.position} {...(isSelected ? pointDrag : {})}>
+          <sphereGeometry args={[0.03, 16, 16]} />
+          <meshStandardMaterial
+            color={line.color}
+            emissive={isSelected ? line.color : undefined}
+            emissiveIntensity={0.4}
+          />
+        </mesh>
+      </group>
+      <Text
+        position={line.position.clone().add(new Vector3(0, 0.05, 0))}
+        fontSize={0.035}
+        color="white"
+        anchorX="center"
+        anchorY="bottom"
+        outlineWidth={0.002}
+        outlineColor="#000000"
+      >
+        {line.equation}
+      </Text>
+    </group>
+  );
+};
+
+const LinePanel = () => {
+  const {
+    lineParams,
+    setLineDefinition,
+    setLineParam,
+    spawnLineFromParams,
+    setMode,
+  } = useLinePlaneStore();
+  const panelPosition = useMemo(() => new Vector3(0, 1.5, -1.0), []);
+  const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
+  const isTwoPoints = lineParams.definition === "twoPoints";
+  const point = new Vector3(...lineParams.point);
+  const direction = isTwoPoints
+    ? new Vector3(...lineParams.second).sub(point)
+    : new Vector3(...lineParams.second);
+  const isDegenerate = direction.lengthSq() < EPSILON;
+  const rows = [
+    { key: "point" as const, label: "Point P", color: "salmon" },
+    {
+      key: "second" as const,
+      label: isTwoPoints ? "Point Q" : "Direction d",
+      color: "gold",
+    },
+  ];
+  return (
+    <group position={panelPosition} rotation={panelRotation}>
+      <mesh>
+        <planeGeometry args={[0.6, 0.5]} />
+        <meshStandardMaterial
+          color="#2a224a"
+          transparent
+          opacity={0.85}
+          side={2}
+        />
+      </mesh>
+      <Text
+        position={[0, 0.21, 0.01]}
+        fontSize={0.025}
+        color="white"
+        anchorX="center"
+        anchorY="middle"
+      >
+        Define Line
+      </Text>
+      <PanelButton
+        label="Point + Direction"
+        position={[-0.14, 0.15, 0.01]}
+        onSelect={() => setLineDefinition("pointDirection")}
+        color={isTwoPoints ? "#446" : "#2a5"}
+        width={0.25}
+      />
+      <PanelButton
+        label="Two Points"
+        position={[0.14, 0.15, 0.01]}
+        onSelect={() => setLineDefinition("twoPoints")}
+        color={isTwoPoints ? "#2a5" : "#446"}
+        width={0.25}
+      />
+      {rows.map((row, rowIndex) => (
+        <group key={row.key} position={[0, 0.08 - rowIndex * 0.1, 0]}>
+          <Text
+            position={[-0.27, 0, 0.01]}
+            fontSize={0.018}
+            color={row.color}
+            anchorX="left"
+          >
+            {row.label}
+          </Text>
+          {["x", "y", "z"].map((label, i) => (
+            <group key={label} position={[(i - 1) * 0.18, -0.04, 0]}>
+              <ValueAdjuster
+                label={label}
+                value={lineParams[row.key][i]}
+                min={-10}
+                max={10}
+                onChange={(_row: number, col: number, value: number) =>
+                  setLineParam(row.key, col, value)
+                }
+                yPos={0}
+                isMatrixCell={true}
+                rowIndex={0}
+                colIndex={i}
+              />
+            </group>
+          ))}
+        </group>
+      ))}
+      <Text
+        position={[0, -0.11, 0.01]}
+        fontSize={0.016}
+        color={isDegenerate ? "orange" : "#ffd080"}
+        anchorX="center"
+        anchorY="middle"
+        maxWidth={0.55}
+      >
+        {isDegenerate
+          ? isTwoPoints
+            ? "P and Q must be different points"
+            : "Direction must be non-zero"
+          : formatLineEquation(point, direction)}
+      </Text>
+      <PanelButton
+        label="Spawn Line"
+        position={[0, -0.16, 0.01]}
+        onSelect={spawnLineFromParams}
+        color="#2a5"
+        width={0.25}
+        disabled={isDegenerate}
+      />
+      <PanelButton
+        label="Back to Controls"
+        position={[0, -0.21, 0.01]}
+        onSelect={() => setMode("random")}
+        color="#777"
+        width={0.25}
+      />
+    </group>
+  );
+};
+
+const SpanView = () => {
+  const { spanVectors } = useLinePlaneStore();
+  const analysis = useMemo(() => analyzeSpan(spanVectors), [spanVectors]);
+  const vectors = useMemo(
+    () => spanVectors.map((v) => new Vector3(...v)),
+    [spanVectors]
+  );
+  const origin = useMemo(() => new Vector3(), []);
+  const basis = analysis.basis.map((i) => vectors[i]);
+  const dependent = new Set(analysis.relations.map((r) => r.dependent));
+  return (
+    <group>
+      {vectors.map((v, i) => (
+        <VectorArrow
+          key={`span-${i}`}
+          head={v}
+          color={SPAN_VECTOR_COLORS[i]}
+          label={dependent.has(i) ? `v${i + 1} (dependent)` : `v${i + 1}`}
+          lineWidth={dependent.has(i) ? 3 : 5}
+        />
+      ))}
+      {analysis.rank === 1 && (
+        <SolutionSetLine
+          point={origin}
+          direction={basis[0]}
+          label="span: a line"
+        />
+      )}
+      {analysis.rank === 2 && (
+        <SolutionSetPlane
+          point={origin}
+          directionA={basis[0]}
+          directionB={basis[1]}
+          label="span: a plane"
+        />
+      )}
+      {analysis.rank === 3 && (
+        <group>
+          <mesh>
+            <boxGeometry args={[3, 3, 3]} />
+            <meshStandardMaterial
+              color="#00ffff"
+              transparent
+              opacity={0.08}
+              depthWrite={false}
+              side={2}
+            />
+            <Edges color="#88ffff" />
+          </mesh>
+          <Text
+            position={[0, 1.6, 0]}
+            fontSize={0.06}
+            color="#88ffff"
+            anchorX="center"
+            anchorY="bottom"
+            outlineWidth={0.002}
+            outlineColor="#000000"
+          >
+            span: all of R³
+          </Text>
+        </group>
+      )}
+    </group>
+  );
+};
+
+const SpanPanel = () => {
+  const {
+    spanVectors,
+    setSpanComponent,
+    setSpanVectorCount,
+    reduceSpanInRref,
+    setMode,
+  } = useLinePlaneStore();
+  const panelPosition = useMemo(() => new Vector3(0, 1.45, -1.0), []);
+  const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
+  const analysis = useMemo(() => analyzeSpan(spanVectors), [spanVectors]);
+  const names = spanVectors.map((_, i) => `v${i + 1}`);
+  const rowSpacing = 0.06;
+  const rowsTop = 0.17;
+  const textTop = rowsTop - spanVectors.length * rowSpacing;
+  const lines = [
+    describeSpan(analysis, spanVectors.length),
+    ...analysis.relations.map((r) => formatSpanRelation(r, names)),
+  ];
+  return (
+    <group position={panelPosition} rotation={panelRotation}>
+      <mesh>
+        <planeGeometry args={[0.7, 0.6]} />
+        <meshStandardMaterial
+          color="#1f3a4a"
+          transparent
+          opacity={0.85}
+          side={2}
+        />
+      </mesh>
+      <Text
+        position={[0, 0.27, 0.01]}
+        fontSize={0.025}
+        color="white"
+        anchorX="center"
+        anchorY="middle"
+      >
+        Span & Linear Independence
+      </Text>
+      <PanelButton
+        label="− Vector"
+        position={[-0.1, 0.22, 0.01]}
+        onSelect={() => setSpanVectorCount(spanVectors.length - 1)}
+        color="#b55"
+        width={0.16}
+        height={0.035}
+        fontSize={0.016}
+        disabled={spanVectors.length <= SPAN_VECTOR_LIMITS.min}
+      />
+      <PanelButton
+        label="+ Vector"
+        position={[0.1, 0.22, 0.01]}
+        onSelect={() => setSpanVectorCount(spanVectors.length + 1)}
+        color="#5b5"
+        width={0.16}
+        height={0.035}
+        fontSize={0.016}
+        disabled={spanVectors.length >= SPAN_VECTOR_LIMITS.max}
+      />
+      {spanVectors.map((vector, vectorIndex) => (
+        <group
+          key={`span-row-${vectorIndex}`}
+          position={[0.03, rowsTop - vectorIndex * rowSpacing, 0]}
+        >
+          <Text
+            position={[-0.32, 0, 0.01]}
+            fontSize={0.02}
+            color={SPAN_VECTOR_COLORS[vectorIndex]}
+            anchorX="left"
+            anchorY="middle"
+          >
+            {names[vectorIndex]}
+          </Text>
+          {["x", "y", "z"].map((label, i) => (
+            <group key={label} position={[(i - 1) * 0.18, 0, 0]}>
+              <ValueAdjuster
+                label={label}
+                value={vector[i]}
+                min={-10}
+                max={10}
+                onChange={(row: number, col: number, value: number) =>
+                  setSpanComponent(row, col, value)
+                }
+                yPos={0}
+                isMatrixCell={true}
+                rowIndex={vectorIndex}
+                colIndex={i}
+              />
+            </group>
+          ))}
+        </group>
+      ))}
+      {lines.map((line, i) => (
+        <Text
+          key={`span-line-${i}`}
+          position={[0, textTop - i * 0.03, 0.01]}
+          fontSize={0.017}
+          color={i === 0 ? "#ffd080" : "orange"}
+          anchorX="center"
+          anchorY="middle"
+          maxWidth={0.65}
+        >
+          {line}
+        </Text>
+      ))}
+      <PanelButton
+        label="Step Through Reduction"
+        position={[0, -0.2, 0.01]}
+        onSelect={reduceSpanInRref}
+        color="#088"
+        width={0.35}
+      />
+      <PanelButton
+        label="Back to Controls"
+        position={[0, -0.255, 0.01]}
+        onSelect={() => setMode("random")}
+        color="#777"
+        width={0.25}
+      />
+    </group>
+  );
+};
+
+const LessonLibraryPanel = () => {
+  const { startLesson, setMode } = useLinePlaneStore();
+  const panelPosition = useMemo(() => new Vector3(0, 1.45, -1.0), []);
+  const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
+  const rowSpacing = 0.055;
+  const panelHeight = 0.2 + LESSONS.length * rowSpacing;
+  return (
+    <group position={panelPosition} rotation={panelRotation}>
+      <mesh>
+        <planeGeometry args={[0.5, panelHeight]} />
+        <meshStandardMaterial
+          color="#2a3a2a"
+          transparent
+          opacity={0.85}
+          side={2}
+        />
+      </mesh>
+      <Text
+        position={[0, panelHeight / 2 - 0.04, 0.01]}
+        fontSize={0.025}
+        color="white"
+        anchorX="center"
+        anchorY="middle"
+      >
+        Lesson Library
+      </Text>
+      {LESSONS.map((lesson, i) => (
+        <PanelButton
+          key={lesson.title}
+          label={`${i + 1}. ${lesson.title}`}
+          position={[0, panelHeight / 2 - 0.1 - i * rowSpacing, 0.01]}
+          onSelect={() => startLesson(i)}
+          color={lesson.scene.kind === "rref" ? "#088" : "#276"}
+          width={0.42}
+          fontSize={0.018}
+        />
+      ))}
+      <PanelButton
+        label="Back to Controls"
+        position={[0, -panelHeight / 2 + 0.04, 0.01]}
+        onSelect={() => setMode("random")}
+        color="#777"
+        width={0.25}
+      />
+    </group>
+  );
+};
+
+const GeneratorPanel = () => {
+  const {
+    generatorOutcome,
+    generatorSeed,
+    setGeneratorOutcome,
+    setGeneratorSeed,
+    generateProblem,
+    startPractice,
+    setMode,
+  } = useLinePlaneStore();
+  const panelPosition = useMemo(() => new Vector3(0, 1.45, -1.0), []);
+  const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
+  const preview = useMemo(
+    () => generateSystem(generatorOutcome, generatorSeed),
+    [generatorOutcome, generatorSeed]
+  );
+  return (
+    <group position={panelPosition} rotation={panelRotation}>
+      <mesh>
+        <planeGeometry args={[0.55, 0.55]} />
+        <meshStandardMaterial
+          color="#3a2a4a"
+          transparent
+          opacity={0.85}
+          side={2}
+        />
+      </mesh>
+      <Text
+        position={[0, 0.235, 0.01]}
+        fontSize={0.025}
+        color="white"
+        anchorX="center"
+        anchorY="middle"
+      >
+        Problem Generator
+      </Text>
+      {(Object.keys(GENERATOR_OUTCOME_LABELS) as SolutionType[]).map(
+        (outcome, i) => (
+          <PanelButton
+            key={outcome}
+            label={GENERATOR_OUTCOME_LABELS[outcome]}
+            position={[
+              i % 2 === 0 ? -0.11 : 0.11,
+              0.18 - Math.floor(i / 2) * 0.045,
+              0.01,
+            ]}
+            onSelect={() => setGeneratorOutcome(outcome)}
+            color={outcome === generatorOutcome ? "#2a6" : "#446"}
+            width={0.2}
+            height={0.035}
+            fontSize={0.016}
+          />
+        )
+      )}
+      <IntegerStepper
+        label="Seed"
+        value={generatorSeed}
+        min={0}
+        max={GENERATOR_SEED_LIMIT}
+        onChange={setGeneratorSeed}
+        position={[-0.02, 0.085, 0.01]}
+      />
+      <PanelButton
+        label="Random Seed"
+        position={[0.17, 0.085, 0.01]}
+        onSelect={() =>
+          setGeneratorSeed(Math.floor(Math.random() * GENERATOR_SEED_LIMIT))
+        }
+        color="#a63"
+        width={0.15}
+        height={0.035}
+        fontSize={0.015}
+      />
+      {!preview && (
+        <Text
+          position={[0, 0.005, 0.01]}
+          fontSize={0.016}
+          color="#ff8080"
+          anchorX="center"
+          anchorY="middle"
+          maxWidth={0.5}
+          textAlign="center"
+        >
+          {describeGeneratorFailure(generatorOutcome, generatorSeed)}
+        </Text>
+      )}
+      {preview?.map((row, r) => (
+        <Text
+          key={`generator-row-${r}`}
+          position={[0, 0.035 - r * 0.03, 0.01]}
+          fontSize={0.018}
+          color="#ffd080"
+          anchorX="center"
+          anchorY="middle"
+        >
+          {formatGeneratedRow(row)}
+        </Text>
+      ))}
+      <PanelButton
+        label="Open in RREF"
+        position={[-0.17, -0.1, 0.01]}
+        onSelect={() => generateProblem("rref")}
+        color="#088"
+        width={0.16}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Show as Planes"
+        position={[0, -0.1, 0.01]}
+        onSelect={() => generateProblem("planes")}
+        color="#276"
+        width={0.16}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Practice It"
+        position={[0.17, -0.1, 0.01]}
+        onSelect={() => startPractice("generated")}
+        color="#2a5"
+        width={0.16}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Back to Controls"
+        position={[0, -0.22, 0.01]}
+        onSelect={() => setMode("random")}
+        color="#777"
+        width={0.25}
+      />
+    </group>
+  );
+};
+
+// Shown beside the workspace while a lesson is active, in whatever mode the
+// lesson loaded.
+const LessonBar = () => {
+  const { activeLesson, stepLesson, endLesson } = useLinePlaneStore();
+  const panelPosition = useMemo(() => new Vector3(-0.8, 1.4, -0.85), []);
+  const panelRotation = useMemo(() => new Euler(0, 0.5, 0), []);
+  const lesson = activeLesson === null ? null : LESSONS[activeLesson];
+  if (!lesson || activeLesson === null) return null;
+  return (
+    <group position={panelPosition} rotation={panelRotation}>
+      <mesh>
+        <planeGeometry args={[0.45, 0.3]} />
+        <meshStandardMaterial
+          color="#2a3a2a"
+          transparent
+          opacity={0.85}
+          side={2}
+        />
+      </mesh>
+      <Text
+        position={[0, 0.12, 0.01]}
+        fontSize={0.016}
+        color="#aaffaa"
+        anchorX="center"
+        anchorY="middle"
+      >
+        {`Lesson ${activeLesson + 1} / ${LESSONS.length}`}
+      </Text>
+      <Text
+        position={[0, 0.09, 0.01]}
+        fontSize={0.022}
+        color="white"
+        anchorX="center"
+        anchorY="middle"
+        maxWidth={0.42}
+      >
+        {lesson.title}
+      </Text>
+      <Text
+        position={[0, 0.06, 0.01]}
+        fontSize={0.016}
+        color="#ffd080"
+        anchorX="center"
+        anchorY="top"
+        maxWidth={0.41}
+      >
+        {lesson.explanation}
+      </Text>
+      <PanelButton
+        label="Previous"
+        position={[-0.14, -0.11, 0.01]}
+        onSelect={() => stepLesson("back")}
+        color="#446"
+        width={0.12}
+        fontSize={0.016}
+        disabled={activeLesson === 0}
+      />
+      <PanelButton
+        label="End"
+        position={[0, -0.11, 0.01]}
+        onSelect={endLesson}
+        color="#777"
+        width={0.12}
+        fontSize={0.016}
+      />
+      <PanelButton
+        label="Next Example"
+        position={[0.14, -0.11, 0.01]}
+        onSelect={() => stepLesson("forward")}
+        color="#2a5"
+        width={0.12}
+        fontSize={0.016}
+        disabled={activeLesson === LESSONS.length - 1}
+      />
+    </group>
+  );
+};
+
+const TRANSFORM_BASIS = [
+  { axis: new Vector3(1, 0, 0), color: "#ff4444", label: "T(i)" },
+  { axis: new Vector3(0, 1, 0), color: "#44ff44", label: "T(j)" },
+  { axis: new Vector3(0, 0, 1), color: "#4488ff", label: "T(k)" },
+].map((b) => ({ ...b, points: [new Vector3(), b.axis] }));
+
+// drei's Text is a troika text mesh; these are the properties rewritten while
+// animating.
+type LiveText = Mesh & { text: string; color: ColorRepresentation };
+
+// The animation poses the cube, basis vectors and planes through refs, so the
+// view only re-renders when the matrix or the planes change.
+const TransformationView = ({ planes }: { planes: PlaneObject[] }) => {
+  const { transformMatrix, transformTarget } = useLinePlaneStore();
+  const progressRef = useRef(0);
+  const cubeRef = useRef<Group>(null);
+  const cubeMaterialRef = useRef<MeshStandardMaterial>(null);
+  const basisLineRefs = useRef<(Group | null)[]>([]);
+  const basisLabelRefs = useRef<(LiveText | null)[]>([]);
+  const planeGroupRefs = useRef<(Group | null)[]>([]);
+  const planeLabelRefs = useRef<(LiveText | null)[]>([]);
+  const detTextRef = useRef<LiveText>(null);
+
+  const showProgress = () => {
+    const progress = progressRef.current;
+    const eased = progress * progress * (3 - 2 * progress);
+    const map = interpolateLinearMap(transformMatrix, eased);
+    const det = map.determinant();
+    const cube = cubeRef.current;
+    if (cube) {
+      cube.matrix.setFromMatrix3(map);
+      cube.matrixWorldNeedsUpdate = true;
     }
-  };
-  const handleIncrement = () => {
-    const newValue = Math.min(max, value + increment);
-    if (
-      isMatrixCell &&
-      typeof rowIndex === "number" &&
-      typeof colIndex === "number"
-    ) {
-      onChange(rowIndex, colIndex, newValue);
-    } else if (paramKey) {
-      onChange(paramKey, newValue);
+    cubeMaterialRef.current?.color.set(det < 0 ? "#ff8844" : "#44ccff");
+    // Each basis line is drawn along its axis and turned and stretched onto
+    // the mapped axis.
+    TRANSFORM_BASIS.forEach((b, i) => {
+      const tip = b.axis.clone().applyMatrix3(map);
+      const length = tip.length();
+      const line = basisLineRefs.current[i];
+      if (line) {
+        line.scale.setScalar(length);
+        if (length > EPSILON)
+          line.quaternion.setFromUnitVectors(
+            b.axis,
+            tip.clone().divideScalar(length)
+          );
+      }
+      basisLabelRefs.current[i]?.position.copy(tip).multiplyScalar(1.1);
+    });
+    planes.forEach((plane, i) => {
+      const group = planeGroupRefs.current[i];
+      if (!group) return;
+      const transformed = transformPlaneObject(plane, map);
+      group.visible = !!transformed;
+      if (!transformed) return;
+      group.position.copy(transformed.position);
+      group.rotation.copy(transformed.rotation);
+      const label = planeLabelRefs.current[i];
+      if (label) label.text = transformed.equation;
+    });
+    const detText = detTextRef.current;
+    if (detText) {
+      detText.text = describeDeterminant(det);
+      detText.color = det < 0 ? "orange" : "white";
     }
   };
-  const formatDisplayValue = (val: number) => val.toFixed(1).replace(".0", "");
-  const buttonOffsetX = valueDisplayWidth / 2 + buttonSpacing;
+  useLayoutEffect(() => showProgress());
+
+  useFrame((_, delta) => {
+    const current = progressRef.current;
+    if (current === transformTarget) return;
+    const step = delta / TRANSFORM_ANIMATION_SECONDS;
+    progressRef.current =
+      transformTarget > current
+        ? Math.min(transformTarget, current + step)
+        : Math.max(transformTarget, current - step);
+    showProgress();
+  });
+
   return (
-    <group position={[0, yPos, 0.01]}>
-      {label && (
-        <Text
-          position={[-buttonOffsetX - buttonSize / 2 - spacing, 0, 0]}
-          fontSize={0.018}
-          color="white"
-          anchorX="right"
-          anchorY="middle"
+    <group>
+      <group ref={cubeRef} matrixAutoUpdate={false}>
+        <mesh position={[0.5, 0.5, 0.5]}>
+          <boxGeometry args={[1, 1, 1]} />
+          <meshStandardMaterial
+            ref={cubeMaterialRef}
+            color="#44ccff"
+            transparent
+            opacity={0.2}
+            side={2}
+          />
+          <Edges color="#aaddff" />
+        </mesh>
+      </group>
+      {TRANSFORM_BASIS.map((b, i) => (
+        <group key={b.label}>
+          <group
+            ref={(group) => {
+              basisLineRefs.current[i] = group;
+            }}
+          >
+            <Line points={b.points} color={b.color} lineWidth={5} />
+          </group>
+          <Text
+            ref={(text: LiveText | null) => {
+              basisLabelRefs.current[i] = text;
+            }}
+            fontSize={0.05}
+            color={b.color}
+            outlineWidth={0.002}
+            outlineColor="#000000"
+          >
+            {b.label}
+          </Text>
+        </group>
+      ))}
+      {planes.map((plane, i) => (
+        <group
+          key={plane.id}
+          ref={(group) => {
+            planeGroupRefs.current[i] = group;
+          }}
         >
-          {label}:
-        </Text>
-      )}
+          <MathPlane
+            id={plane.id}
+            position={GROUP_PLACED_POSITION}
+            rotation={GROUP_PLACED_ROTATION}
+            color={plane.color}
+            isSelected={false}
+            interactive={false}
+            equation=""
+          />
+          {/* MathPlane's own label can't follow the animation. */}
+          <Text
+            ref={(text: LiveText | null) => {
+              planeLabelRefs.current[i] = text;
+            }}
+            position={[0, 0, 0.05]}
+            rotation={[-Math.PI / 2, 0, 0]}
+            fontSize={0.05}
+            color="white"
+            anchorX="center"
+            anchorY="middle"
+          >
+            {plane.equation}
+          </Text>
+        </group>
+      ))}
       <Text
-        position={[0, 0, 0]}
-        fontSize={0.02}
-        color="yellow"
+        ref={detTextRef}
+        position={[0, -0.15, 0.5]}
+        fontSize={0.05}
+        color="white"
         anchorX="center"
-        anchorY="middle"
-        maxWidth={valueDisplayWidth}
+        outlineWidth={0.002}
+        outlineColor="#000000"
       >
-        {formatDisplayValue(value)}
+        {describeDeterminant(1)}
       </Text>
-      <Interactive onSelect={handleDecrement}>
-        <mesh position={[-buttonOffsetX, 0, 0]}>
-          <planeGeometry args={[buttonSize, buttonSize]} />
-          <meshStandardMaterial color="#b55" side={2} />
-        </mesh>
-        <Text
-          position={[-buttonOffsetX, 0, 0.001]}
-          fontSize={0.025}
-          color="white"
-          anchorX="center"
-          anchorY="middle"
-        >
-          -
-        </Text>
-      </Interactive>
-      <Interactive onSelect={handleIncrement}>
-        <mesh position={[buttonOffsetX, 0, 0]}>
-          <planeGeometry args={[buttonSize, buttonSize]} />
-          <meshStandardMaterial color="#5b5" side={2} />
-        </mesh>
-        <Text
-          position={[buttonOffsetX, 0, 0.001]}
-          fontSize={0.025}
-          color="white"
-          anchorX="center"
-          anchorY="middle"
-        >
-          +
-        </Text>
-      </Interactive>
     </group>
   );
 };
 
-const ControlPanel = () => {
-  const { selectedObjectId, addPlane, removeObject, clearAll, setMode } =
-    useLinePlaneStore();
+const Matrix3Editor = ({
+  matrix,
+  onChange,
+  yPos,
+}: {
+  matrix: Matrix;
+  onChange: (row: number, col: number, value: number) => void;
+  yPos: number;
+}) => {
+  const cellSpacing = 0.18;
+  return (
+    <group position={[-cellSpacing, yPos, 0.01]}>
+      {matrix.map((row, r) => (
+        <group key={`row-${r}`} position={[0, -r * 0.06, 0]}>
+          {row.map((cell, c) => (
+            <group key={`cell-${r}-${c}`} position={[c * cellSpacing, 0, 0]}>
+              <ValueAdjuster
+                value={cell}
+                min={-10}
+                max={10}
+                onChange={onChange}
+                yPos={0}
+                isMatrixCell={true}
+                rowIndex={r}
+                colIndex={c}
+              />
+            </group>
+          ))}
+        </group>
+      ))}
+    </group>
+  );
+};
+
+const TransformPanel = () => {
+  const {
+    transformMatrix,
+    transformTarget,
+    updateTransformCell,
+    setTransformTarget,
+    resetTransformMatrix,
+    setMode,
+  } = useLinePlaneStore();
   const panelPosition = useMemo(() => new Vector3(0, 1.5, -1.0), []);
   const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
-  const handleClearAll = () => {
-    clearAll();
-  };
-  const handleSetupRref = () => {
-    setMode("rref");
-  };
+  const det = interpolateLinearMap(transformMatrix, 1).determinant();
   return (
     <group position={panelPosition} rotation={panelRotation}>
       <mesh>
-        <planeGeometry args={[0.4, 0.4]} />
+        <planeGeometry args={[0.6, 0.5]} />
         <meshStandardMaterial
-          color="#22224a"
+          color="#2a2a4a"
           transparent
-          opacity={0.8}
+          opacity={0.85}
           side={2}
         />
       </mesh>
       <Text
-        position={[0, 0.17, 0.01]}
+        position={[0, 0.21, 0.01]}
         fontSize={0.025}
         color="white"
         anchorX="center"
         anchorY="middle"
       >
-        Controls
+        Linear Transformation (3×3)
       </Text>
-      <PanelButton
-        label="Add Random Plane"
-        position={[0, 0.1, 0.01]}
-        onSelect={() => addPlane()}
+      <Matrix3Editor
+        matrix={transformMatrix}
+        onChange={updateTransformCell}
+        yPos={0.14}
       />
-      {selectedObjectId && (
-        <PanelButton
-          label="Delete Selected"
-          position={[0, 0.05, 0.01]}
-          onSelect={() => removeObject(selectedObjectId)}
-          color="#a44"
-        />
-      )}
+      <Text
+        position={[0, -0.05, 0.01]}
+        fontSize={0.018}
+        color={det < 0 ? "orange" : "lightgreen"}
+        anchorX="center"
+        maxWidth={0.52}
+      >
+        {describeDeterminant(det)}
+      </Text>
       <PanelButton
-        label="Clear All"
-        position={[0, 0.0, 0.01]}
-        onSelect={handleClearAll}
-        color="#6f2ca5"
+        label={
+          transformTarget === 1
+            ? "Animate Back to Identity"
+            : "Apply Transformation"
+        }
+        position={[0, -0.1, 0.01]}
+        onSelect={() => setTransformTarget(transformTarget === 1 ? 0 : 1)}
+        color="#2a5"
+        width={0.4}
       />
       <PanelButton
-        label="Define Plane Eq"
-        position={[0, -0.05, 0.01]}
-        onSelect={() => setMode("equation")}
-        color="#276"
-        width={0.35}
+        label="Reset Matrix to Identity"
+        position={[0, -0.15, 0.01]}
+        onSelect={resetTransformMatrix}
+        color="#a63"
+        width={0.4}
       />
       <PanelButton
-        label="Setup RREF"
-        position={[0, -0.12, 0.01]}
-        onSelect={handleSetupRref}
-        color="#088"
-        width={0.35}
+        label="Back to Controls"
+        position={[0, -0.2, 0.01]}
+        onSelect={() => setMode("random")}
+        color="#777"
+        width={0.25}
       />
     </group>
   );
 };
 
-const EquationPanel = () => {
-  const { planeParams, setPlaneParam, spawnFromEquation, setMode } =
-    useLinePlaneStore();
-  const panelPosition = useMemo(() => new Vector3(0, 1.5, -1.0), []);
+const IntegerStepper = ({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+  position,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  position: [number, number, number];
+}) => (
+  <group position={position}>
+    <Text
+      position={[-0.07, 0, 0.01]}
+      fontSize={0.016}
+      color="white"
+      anchorX="right"
+      anchorY="middle"
+    >
+      {label}
+    </Text>
+    <PanelButton
+      label="−"
+      position={[-0.045, 0, 0]}
+      onSelect={() => onChange(value - 1)}
+      color="#b55"
+      width={0.035}
+      height={0.035}
+      disabled={value <= min}
+    />
+    <Text
+      position={[0, 0, 0.01]}
+      fontSize={0.02}
+      color="yellow"
+      anchorX="center"
+      anchorY="middle"
+    >
+      {value}
+    </Text>
+    <PanelButton
+      label="+"
+      position={[0.045, 0, 0]}
+      onSelect={() => onChange(value + 1)}
+      color="#5b5"
+      width={0.035}
+      height={0.035}
+      disabled={value >= max}
+    />
+  </group>
+);
+
+const PRACTICE_OPERATION_LABELS: Record<PracticeOperationKind, string> = {
+  swap: "Swap",
+  scale: "Scale",
+  addMultiple: "Add Multiple",
+};
+
+const PRACTICE_FEEDBACK_COLORS: Record<PracticeFeedback["tone"], string> = {
+  success: "lightgreen",
+  info: "#ffd080",
+  error: "#ff8888",
+};
+
+// The student's current matrix drawn as planes, at the RREF viewer's scale.
+const PracticeView = () => {
+  const { practice } = useLinePlaneStore();
+  const current = practice?.steps[practice.steps.length - 1] ?? null;
+  const planes = useMemo(() => {
+    if (!current || !isDrawableSystem(current.matrix)) return [];
+    return current.matrix.flatMap((row, index) => {
+      const numbers = row.map(scalarToNumber);
+      const transform = getPlaneTransformFromRow(numbers);
+      const geometry = getPlaneGeometryFromRow(numbers);
+      return transform?.isValid && geometry
+        ? [{ index, row, transform, geometry }]
+        : [];
+    });
+  }, [current]);
+  if (!current) return null;
+  const affectedRows = getAffectedRows(current.operation);
+  const lines = analyzePlaneIntersections(
+    planes.map((plane) => plane.geometry)
+  ).lines.map((hit) => ({
+    id: hit.planes.map((i) => planes[i].index).join("-"),
+    ...hit,
+  }));
+  return (
+    <group scale={[1 / 3, 1 / 3, 1 / 3]}>
+      {planes.map((plane) => (
+        <MathPlane
+          key={`practice-plane-${plane.index}`}
+          id={`practice-plane-${plane.index}`}
+          position={plane.transform.position}
+          rotation={plane.transform.rotation}
+          color={RREF_PLANE_COLORS[plane.index % RREF_PLANE_COLORS.length]}
+          isSelected={false}
+          isHighlighted={affectedRows.includes(plane.index)}
+          equation={`${formatScalar(plane.row[0])}x + ${formatScalar(plane.row[1])}y + ${formatScalar(plane.row[2])}z = ${formatScalar(plane.row[3])}`}
+        />
+      ))}
+      {lines.map((line) => (
+        <IntersectionLine
+          key={`practice-line-${line.id}`}
+          line={line.line}
+          label=""
+        />
+      ))}
+    </group>
+  );
+};
+
+const PracticePanel = () => {
+  const {
+    practice,
+    practiceDraft,
+    practiceFeedback,
+    generatorSeed,
+    startPractice,
+    setGeneratorSeed,
+    setPracticeDraft,
+    applyPracticeOperation,
+    undoPracticeStep,
+    showPracticeHint,
+    declarePracticeSolution,
+    setMode,
+  } = useLinePlaneStore();
+  const panelPosition = useMemo(() => new Vector3(0, 1.25, -1.0), []);
   const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
+  if (!practice) {
+    return (
+      <group position={panelPosition} rotation={panelRotation}>
+        <PanelButton
+          label="Start Practice Example"
+          position={[0, 0.03, 0]}
+          onSelect={() => startPractice("example")}
+          color="#2a5"
+          width={0.35}
+        />
+        <PanelButton
+          label="Back to RREF Editor"
+          position={[0, -0.03, 0]}
+          onSelect={() => setMode("rref")}
+          color="#777"
+          width={0.35}
+        />
+      </group>
+    );
+  }
+  const current = practice.steps[practice.steps.length - 1];
+  const field = getScalarField(practice.arithmetic);
+  const solved = matricesEqual(current.matrix, practice.target, field);
+  const affectedRows = getAffectedRows(current.operation);
+  const numRows = current.matrix.length;
+  const numCols = current.matrix[0]?.length ?? 0;
+  const numVars = Math.max(0, numCols - 1);
+  const cellWidth = 0.12;
+  const cellHeight = 0.05;
+  const cellPadding = 0.02;
+  const matrixWidth = numCols * cellWidth + (numCols - 1) * cellPadding;
+  const panelWidth = Math.max(0.75, matrixWidth + 0.2);
+  const matrixHeight = numRows * (cellHeight + cellPadding);
+  const panelHeight = 0.62 + matrixHeight;
+  const matrixTop = panelHeight / 2 - 0.17;
+  const controlsTop = matrixTop - matrixHeight - 0.02;
+  const { kind, rowA, rowB, factorNum, factorDen } = practiceDraft;
+  const rowPicker = (
+    label: string,
+    selected: number,
+    onPick: (row: number) => void,
+    y: number
+  ) => (
+    <group position={[0, y, 0.01]}>
+      <Text
+        position={[-0.2, 0, 0]}
+        fontSize={0.016}
+        color="white"
+        anchorX="right"
+        anchorY="middle"
+      >
+        {label}
+      </Text>
+      {current.matrix.map((_, r) => (
+        <PanelButton
+          key={`${label}-${r}`}
+          label={`R${r + 1}`}
+          position={[-0.16 + r * 0.065, 0, 0]}
+          onSelect={() => onPick(r)}
+          color={r === selected ? "#2a6" : "#446"}
+          width={0.055}
+          height={0.035}
+          fontSize={0.015}
+        />
+      ))}
+    </group>
+  );
+  const solutionChoices: { type: SolutionType; label: string }[] =
+    numVars === 3
+      ? [
+          { type: "unique", label: "Point" },
+          { type: "infinite_line", label: "Line" },
+          { type: "infinite_plane", label: "Plane" },
+          { type: "none", label: "None" },
+        ]
+      : [
+          { type: "unique", label: "Unique" },
+          { type: "infinite_line", label: "Infinite" },
+          { type: "none", label: "None" },
+        ];
   return (
     <group position={panelPosition} rotation={panelRotation}>
       <mesh>
-        <planeGeometry args={[0.45, 0.45]} />
+        <planeGeometry args={[panelWidth, panelHeight]} />
         <meshStandardMaterial
-          color="#2a224a"
+          color="#1a2f3f"
           transparent
-          opacity={0.85}
+          opacity={0.9}
           side={2}
         />
       </mesh>
       <Text
-        position={[0, 0.19, 0.01]}
+        position={[0, panelHeight / 2 - 0.04, 0.01]}
         fontSize={0.025}
         color="white"
         anchorX="center"
         anchorY="middle"
       >
-        Define Plane Equation
+        Practice: Reduce to RREF
       </Text>
-      <>
-        <Text
-          position={[-0.2, 0.13, 0.01]}
-          fontSize={0.018}
-          color="salmon"
-          anchorX="left"
-        >
-          Coefficients (a, b, c)
-        </Text>
-        <ValueAdjuster
-          label="a "
-          value={planeParams.paramA}
-          min={-10}
-          max={10}
-          onChange={setPlaneParam}
-          paramKey="paramA"
-          yPos={0.09}
+      <Text
+        position={[0, panelHeight / 2 - 0.08, 0.01]}
+        fontSize={0.018}
+        color={solved ? "lightgreen" : "cyan"}
+        anchorX="center"
+        anchorY="middle"
+      >
+        {`Operations: ${practice.steps.length - 1}${solved ? "  ·  In RREF" : ""}`}
+      </Text>
+      <Text
+        position={[0, panelHeight / 2 - 0.11, 0.01]}
+        fontSize={0.018}
+        color="#ffd080"
+        anchorX="center"
+        anchorY="middle"
+      >
+        {formatRowOperation(current.operation)}
+      </Text>
+      <group position={[-matrixWidth / 2 + cellWidth / 2, matrixTop, 0.01]}>
+        {current.matrix.map((row, r) =>
+          row.map((cell, c) => (
+            <group
+              key={`practice-cell-${r}-${c}`}
+              position={[
+                c * (cellWidth + cellPadding),
+                -r * (cellHeight + cellPadding),
+                0,
+              ]}
+            >
+              <mesh>
+                <planeGeometry args={[cellWidth, cellHeight]} />
+                <meshStandardMaterial
+                  color={
+                    isContradictionRow(row, field)
+                      ? "#7a2a2a"
+                      : affectedRows.includes(r)
+                        ? "#2f5f7a"
+                        : "#334444"
+                  }
+                />
+              </mesh>
+              <Text
+                position={[0, 0, 0.001]}
+                fontSize={0.018}
+                color="white"
+                anchorX="center"
+                anchorY="middle"
+              >
+                {formatScalar(cell)}
+              </Text>
+            </group>
+          ))
+        )}
+      </group>
+      <group position={[0, controlsTop, 0]}>
+        {(
+          Object.keys(PRACTICE_OPERATION_LABELS) as PracticeOperationKind[]
+        ).map((option, i) => (
+          <PanelButton
+            key={option}
+            label={PRACTICE_OPERATION_LABELS[option]}
+            position={[(i - 1) * 0.2, 0, 0.01]}
+            onSelect={() => setPracticeDraft({ kind: option })}
+            color={option === kind ? "#2a6" : "#446"}
+            width={0.18}
+            height={0.035}
+            fontSize={0.015}
+          />
+        ))}
+        {rowPicker(
+          kind === "swap" ? "Swap" : kind === "scale" ? "Scale" : "Change",
+          rowA,
+          (row) => setPracticeDraft({ rowA: row }),
+          -0.05
+        )}
+        {kind !== "scale" &&
+          rowPicker(
+            kind === "swap" ? "with" : "by adding",
+            rowB,
+            (row) => setPracticeDraft({ rowB: row }),
+            -0.095
+          )}
+        {kind !== "swap" && (
+          <>
+            <IntegerStepper
+              label="× factor"
+              value={factorNum}
+              min={-PRACTICE_FACTOR_LIMIT}
+              max={PRACTICE_FACTOR_LIMIT}
+              onChange={(value) => setPracticeDraft({ factorNum: value })}
+              position={[-0.05, kind === "scale" ? -0.095 : -0.14, 0.01]}
+            />
+            <IntegerStepper
+              label="/"
+              value={factorDen}
+              min={1}
+              max={PRACTICE_FACTOR_LIMIT}
+              onChange={(value) => setPracticeDraft({ factorDen: value })}
+              position={[0.17, kind === "scale" ? -0.095 : -0.14, 0.01]}
+            />
+          </>
+        )}
+        <PanelButton
+          label="Apply"
+          position={[-0.2, -0.19, 0.01]}
+          onSelect={applyPracticeOperation}
+          color="#4a4"
+          width={0.18}
         />
-        <ValueAdjuster
-          label="b "
-          value={planeParams.paramB}
-          min={-10}
-          max={10}
-          onChange={setPlaneParam}
-          paramKey="paramB"
-          yPos={0.04}
+        <PanelButton
+          label="Undo Step"
+          position={[0, -0.19, 0.01]}
+          onSelect={undoPracticeStep}
+          color="#557"
+          width={0.18}
+          disabled={practice.steps.length <= 1}
         />
-        <ValueAdjuster
-          label="c "
-          value={planeParams.paramC}
-          min={-10}
-          max={10}
-          onChange={setPlaneParam}
-          paramKey="paramC"
-          yPos={-0.01}
+        <PanelButton
+          label="Hint"
+          position={[0.2, -0.19, 0.01]}
+          onSelect={showPracticeHint}
+          color="#a63"
+          width={0.18}
         />
+        {practiceFeedback && (
+          <Text
+            position={[0, -0.235, 0.01]}
+            fontSize={0.015}
+            color={PRACTICE_FEEDBACK_COLORS[practiceFeedback.tone]}
+            anchorX="center"
+            anchorY="middle"
+            maxWidth={panelWidth * 0.9}
+          >
+            {practiceFeedback.text}
+          </Text>
+        )}
         <Text
-          position={[-0.2, -0.06, 0.01]}
-          fontSize={0.018}
-          color="gold"
-          anchorX="left"
+          position={[-0.24, -0.29, 0.01]}
+          fontSize={0.016}
+          color="white"
+          anchorX="right"
+          anchorY="middle"
         >
-          Constant d (ax+by+cz=d)
+          Solution set:
         </Text>
-        <ValueAdjuster
-          label="d"
-          value={planeParams.paramD}
-          min={-10}
-          max={10}
-          onChange={setPlaneParam}
-          paramKey="paramD"
-          yPos={-0.1}
+        {solutionChoices.map((choice, i) => (
+          <PanelButton
+            key={choice.type}
+            label={choice.label}
+            position={[-0.17 + i * 0.13, -0.29, 0.01]}
+            onSelect={() => declarePracticeSolution(choice.type)}
+            color={practice.declared === choice.type ? "#2a6" : "#446"}
+            width={0.12}
+            height={0.035}
+            fontSize={0.015}
+          />
+        ))}
+        <PanelButton
+          label="New Example"
+          position={[-0.22, -0.345, 0.01]}
+          onSelect={() => startPractice("example")}
+          color="#2a5"
+          width={0.2}
+          fontSize={0.016}
         />
-      </>
-      <PanelButton
-        label="Spawn Plane"
-        position={[0, -0.16, 0.01]}
-        onSelect={spawnFromEquation}
-        color="#2a5"
-        width={0.25}
-      />
-      <PanelButton
-        label="Back to Controls"
-        position={[0, -0.21, 0.01]}
-        onSelect={() => setMode("random")}
-        color="#777"
-        width={0.25}
-      />
+        <PanelButton
+          label="New Generated"
+          position={[0, -0.345, 0.01]}
+          onSelect={() => {
+            setGeneratorSeed((generatorSeed + 1) % (GENERATOR_SEED_LIMIT + 1));
+            startPractice("generated");
+          }}
+          color="#648"
+          width={0.2}
+          fontSize={0.016}
+        />
+        <PanelButton
+          label="Back to RREF Editor"
+          position={[0.22, -0.345, 0.01]}
+          onSelect={() => setMode("rref")}
+          color="#777"
+          width={0.2}
+          fontSize={0.016}
+        />
+      </group>
     </group>
   );
 };
@@ -1138,23 +7010,69 @@ const RrefPanel = () => {
     rrefStepIndex,
     rrefState,
     rrefAnalysis,
+    rrefArithmetic,
+    rrefLeastSquaresSolution,
+    rrefShowLeastSquares,
+    toggleRrefLeastSquares,
     updateInitialRrefCell,
+    resizeInitialRrefMatrix,
+    setRrefArithmetic,
     calculateAndStartRrefViewing,
     resetRrefToEditing,
     stepRrefHistory,
+    startPractice,
     setMode,
+    rrefAutoPlay,
+    rrefPlaybackSpeed,
+    toggleRrefAutoPlay,
+    cycleRrefPlaybackSpeed,
   } = useLinePlaneStore();
   const panelPosition = useMemo(() => new Vector3(0, 1.2, -1.0), []);
   const panelRotation = useMemo(() => new Euler(0, 0, 0), []);
+
+  useEffect(() => {
+    if (!rrefAutoPlay) return;
+    if (rrefStepIndex >= rrefHistory.length - 1) {
+      toggleRrefAutoPlay();
+      return;
+    }
+    const timer = setTimeout(
+      () => stepRrefHistory("forward"),
+      (RREF_AUTOPLAY_STEP_SECONDS * 1000) / rrefPlaybackSpeed
+    );
+    return () => clearTimeout(timer);
+  }, [
+    rrefAutoPlay,
+    rrefPlaybackSpeed,
+    rrefStepIndex,
+    rrefHistory.length,
+    toggleRrefAutoPlay,
+    stepRrefHistory,
+  ]);
+
   const cellWidth = 0.15;
   const cellHeight = 0.06;
   const cellPadding = 0.03;
-  const matrixToDisplay =
-    rrefState === "editing"
-      ? initialRrefMatrix
-      : rrefHistory && rrefHistory.length > 0 && rrefStepIndex >= 0
-        ? rrefHistory[rrefStepIndex]
-        : null;
+  const currentStep =
+    rrefState === "viewing" &&
+    rrefHistory &&
+    rrefHistory.length > 0 &&
+    rrefStepIndex >= 0
+      ? rrefHistory[rrefStepIndex]
+      : null;
+  const matrixToDisplay: ScalarMatrix | null =
+    rrefState === "editing" ? initialRrefMatrix : (currentStep?.matrix ?? null);
+  const affectedRows = currentStep
+    ? getAffectedRows(currentStep.operation)
+    : [];
+  const field = getScalarField(rrefArithmetic);
+  const getCellColor = (r: number, c: number) => {
+    if (currentStep?.pivot?.row === r && currentStep.pivot.col === c)
+      return "#8a6a1a";
+    if (currentStep && isContradictionRow(currentStep.matrix[r], field))
+      return "#7a2a2a";
+    return affectedRows.includes(r) ? "#2f5f7a" : "#334444";
+  };
   if (!matrixToDisplay) {
     return (
       <group position={panelPosition} rotation={panelRotation}>
@@ -1166,23 +7084,69 @@ const RrefPanel = () => {
   const numCols = matrixToDisplay[0]?.length || 0;
   const matrixWidth =
     numCols * cellWidth + (numCols > 0 ? (numCols - 1) * cellPadding : 0);
+  const numVars = Math.max(0, numCols - 1);
   const matrixOriginX = -matrixWidth / 2;
-  const matrixOriginY = 0.2;
   const panelWidth = Math.max(0.7, matrixWidth + 0.2);
-  const panelHeight = 0.85;
-  const formatNumberDisplay = (num: number) => {
-    if (Math.abs(num) < EPSILON) return "0";
-    return num
-      .toFixed(2)
-      .replace(/\.00$/, "")
-      .replace(/\.?0+$/, "");
-  };
   const isViewingLastStep =
     rrefState === "viewing" && rrefStepIndex === rrefHistory.length - 1;
+  const invarianceCheck =
+    currentStep && rrefAnalysis?.generalSolution
+      ? checkSolutionInvariance(
+          currentStep.matrix.map((row) => row.map(scalarToNumber)),
+          rrefAnalysis.generalSolution
+        )
+      : null;
+  // Without a solution set to check against, say how the planes sit instead.
+  const configurationText =
+    currentStep && !invarianceCheck && isDrawableSystem(currentStep.matrix)
+      ? describePlaneConfiguration(
+          analyzePlaneIntersections(
+            currentStep.matrix.flatMap((row) => {
+              const plane = getPlaneGeometryFromRow(row.map(scalarToNumber));
+              return plane ? [plane] : [];
+            })
+          )
+        )
+      : null;
+  const parametricText =
+    rrefAnalysis?.generalSolution && rrefAnalysis.rank < rrefAnalysis.numVars
+      ? formatParametricSolution(rrefAnalysis.generalSolution, rrefArithmetic)
+      : null;
+  const isInconsistent = rrefAnalysis?.consistency === "inconsistent";
+  const conflictRow =
+    currentStep?.matrix.findIndex((row) => isContradictionRow(row, field)) ??
+    -1;
+  // Explains the step on screen, the same matrix the 3D view highlights.
+  const inconsistencyText =
+    !isInconsistent || !currentStep
+      ? null
+      : isDrawableSystem(currentStep.matrix)
+        ? describeInconsistency(
+            diagnoseInconsistency(
+              currentStep.matrix.map((row) => row.map(scalarToNumber))
+            )
+          )
+        : conflictRow >= 0
+          ? `Reduced row ${conflictRow + 1} reads 0 = ${formatScalar(currentStep.matrix[conflictRow][numVars])}.`
+          : null;
+  const analysisHeight =
+    isViewingLastStep && rrefAnalysis
+      ? isInconsistent
+        ? 0.2
+        : parametricText
+          ? 0.16
+          : 0.1
+      : 0.0;
+  // Room for the note under the step counter, up to two lines.
+  const noteHeight = invarianceCheck || configurationText ? 0.04 : 0;
+  const panelHeight = Math.max(
+    0.85,
+    numRows * (cellHeight + cellPadding) + 0.48 + noteHeight + analysisHeight
+  );
+  const noteTop = panelHeight / 2 - 0.095;
+  const matrixOriginY = panelHeight / 2 - 0.225 - noteHeight;
   const buttonsY = matrixOriginY - numRows * (cellHeight + cellPadding) - 0.05;
-  const analysisY = buttonsY - 0.08;
-  const bottomButtonsY =
-    analysisY - (isViewingLastStep && rrefAnalysis ? 0.1 : 0.0);
+  const bottomButtonsY = -0.08 - analysisHeight;
   return (
     <group position={panelPosition} rotation={panelRotation}>
       <mesh>
@@ -1205,6 +7169,10 @@ const RrefPanel = () => {
           ? "Edit Initial Matrix"
           : "Row Reduction Steps"}
       </Text>
+      <UndoRedoButtons
+        position={[0, panelHeight / 2 - 0.04, 0.01]}
+        spacing={panelWidth - 0.14}
+      />
       {rrefState === "viewing" && (
         <Text
           position={[0, panelHeight / 2 - 0.08, 0.01]}
@@ -1215,6 +7183,40 @@ const RrefPanel = () => {
           Step {rrefStepIndex + 1} / {rrefHistory.length}
         </Text>
       )}
+      {invarianceCheck && (
+        <Text
+          position={[0, noteTop, 0.01]}
+          fontSize={0.014}
+          color={invarianceCheck.matches ? "lightgreen" : "orange"}
+          anchorX="center"
+          anchorY="top"
+          maxWidth={panelWidth * 0.9}
+        >
+          {invarianceCheck.description}
+        </Text>
+      )}
+      {configurationText && (
+        <Text
+          position={[0, noteTop, 0.01]}
+          fontSize={0.014}
+          color="#ccc"
+          anchorX="center"
+          anchorY="top"
+          maxWidth={panelWidth * 0.9}
+        >
+          {configurationText}
+        </Text>
+      )}
+      {currentStep && (
+        <Text
+          position={[0, panelHeight / 2 - 0.115 - noteHeight, 0.01]}
+          fontSize={0.02}
+          color="#ffd080"
+          anchorX="center"
+        >
+          {formatRowOperation(currentStep.operation)}
+        </Text>
+      )}
       <group position={[matrixOriginX, matrixOriginY, 0.01]}>
         {matrixToDisplay.map((row, r) => (
           <group
@@ -1228,10 +7230,11 @@ const RrefPanel = () => {
               >
                 {rrefState === "editing" ? (
                   <ValueAdjuster
-                    value={cell}
+                    value={scalarToNumber(cell)}
                     min={-10}
                     max={10}
                     onChange={updateInitialRrefCell}
+                    entryTarget={{ kind: "rrefCell", row: r, col: c }}
                     yPos={0}
                     isMatrixCell={true}
                     rowIndex={r}
@@ -1241,7 +7244,7 @@ const RrefPanel = () => {
                   <>
                     <mesh>
                       <planeGeometry args={[cellWidth, cellHeight]} />
-                      <meshStandardMaterial color="#334444" />
+                      <meshStandardMaterial color={getCellColor(r, c)} />
                     </mesh>
                     <Text
                       position={[0, 0, 0.001]}
@@ -1250,7 +7253,7 @@ const RrefPanel = () => {
                       anchorX="center"
                       anchorY="middle"
                     >
-                      {formatNumberDisplay(cell)}
+                      {formatScalar(cell)}
                     </Text>
                   </>
                 )}
@@ -1263,17 +7266,88 @@ const RrefPanel = () => {
         {rrefState === "editing" ? (
           <>
             <PanelButton
-              label="Calculate RREF Steps"
+              label="- Row"
+              position={[-0.27, 0, 0]}
+              width={0.1}
+              height={0.035}
+              fontSize={0.015}
+              onSelect={() => resizeInitialRrefMatrix(numRows - 1, numVars)}
+              disabled={numRows <= RREF_ROW_LIMITS.min}
+            />
+            <PanelButton
+              label="+ Row"
+              position={[-0.16, 0, 0]}
+              width={0.1}
+              height={0.035}
+              fontSize={0.015}
+              onSelect={() => resizeInitialRrefMatrix(numRows + 1, numVars)}
+              disabled={numRows >= RREF_ROW_LIMITS.max}
+            />
+            <Text
               position={[0, 0, 0]}
-              width={0.4}
+              fontSize={0.016}
+              color="white"
+              anchorX="center"
+              anchorY="middle"
+            >
+              {`${numRows} eq × ${numVars} var`}
+            </Text>
+            <PanelButton
+              label="- Var"
+              position={[0.16, 0, 0]}
+              width={0.1}
+              height={0.035}
+              fontSize={0.015}
+              onSelect={() => resizeInitialRrefMatrix(numRows, numVars - 1)}
+              disabled={numVars <= RREF_VAR_LIMITS.min}
+            />
+            <PanelButton
+              label="+ Var"
+              position={[0.27, 0, 0]}
+              width={0.1}
+              height={0.035}
+              fontSize={0.015}
+              onSelect={() => resizeInitialRrefMatrix(numRows, numVars + 1)}
+              disabled={numVars >= RREF_VAR_LIMITS.max}
+            />
+            <PanelButton
+              label="Calculate RREF Steps"
+              position={[-0.1, -0.05, 0]}
+              width={0.26}
               height={0.04}
-              fontSize={0.018}
+              fontSize={0.016}
               color={"#4a4"}
               onSelect={calculateAndStartRrefViewing}
             />
+            <PanelButton
+              label="Practice It"
+              position={[0.14, -0.05, 0]}
+              width={0.18}
+              height={0.04}
+              fontSize={0.016}
+              color={"#2a5"}
+              onSelect={() => startPractice("workspace")}
+            />
+            <PanelButton
+              label={
+                rrefArithmetic === "exact"
+                  ? "Arithmetic: Exact Fractions"
+                  : "Arithmetic: Decimal (Float)"
+              }
+              position={[0, -0.1, 0]}
+              width={0.4}
+              height={0.035}
+              fontSize={0.015}
+              color={rrefArithmetic === "exact" ? "#a63" : "#468"}
+              onSelect={() =>
+                setRrefArithmetic(
+                  rrefArithmetic === "exact" ? "float" : "exact"
+                )
+              }
+            />
             <PanelButton
               label="Back to Controls"
-              position={[0, -0.06, 0]}
+              position={[0, -0.15, 0]}
               width={0.3}
               onSelect={() => setMode("random")}
               color="#777"
@@ -1283,9 +7357,9 @@ const RrefPanel = () => {
           <>
             <group position={[0, 0, 0]}>
               <PanelButton
-                label="< Prev Step"
-                position={[-0.15, 0, 0]}
-                width={0.18}
+                label="< Prev"
+                position={[-0.225, 0, 0]}
+                width={0.13}
                 height={0.04}
                 fontSize={0.018}
                 color={"#aaa"}
@@ -1293,9 +7367,27 @@ const RrefPanel = () => {
                 disabled={rrefStepIndex <= 0}
               />
               <PanelButton
-                label="Next Step >"
-                position={[0.15, 0, 0]}
-                width={0.18}
+                label={rrefAutoPlay ? "Pause" : "Play"}
+                position={[-0.075, 0, 0]}
+                width={0.13}
+                height={0.04}
+                fontSize={0.018}
+                color={rrefAutoPlay ? "#a63" : "#4a8"}
+                onSelect={toggleRrefAutoPlay}
+              />
+              <PanelButton
+                label={`Speed ${rrefPlaybackSpeed}×`}
+                position={[0.075, 0, 0]}
+                width={0.13}
+                height={0.04}
+                fontSize={0.018}
+                color={"#468"}
+                onSelect={cycleRrefPlaybackSpeed}
+              />
+              <PanelButton
+                label="Next >"
+                position={[0.225, 0, 0]}
+                width={0.13}
                 height={0.04}
                 fontSize={0.018}
                 color={"#aaa"}
@@ -1328,6 +7420,59 @@ const RrefPanel = () => {
                 >
                   {rrefAnalysis.solutionString}
                 </Text>
+                {inconsistencyText && (
+                  <>
+                    <Text
+                      fontSize={0.014}
+                      color="#ffaaaa"
+                      anchorX="center"
+                      anchorY="top"
+                      position={[0, -0.045, 0.01]}
+                      maxWidth={panelWidth * 0.9}
+                    >
+                      {inconsistencyText}
+                    </Text>
+                    {rrefShowLeastSquares && rrefLeastSquaresSolution && (
+                      <Text
+                        fontSize={0.014}
+                        color="orange"
+                        anchorX="center"
+                        position={[0, -0.095, 0.01]}
+                        maxWidth={panelWidth * 0.9}
+                      >
+                        {`Closest point (least squares): (${rrefLeastSquaresSolution
+                          .map((v) => formatSolutionValue(v, rrefArithmetic))
+                          .join(", ")})`}
+                      </Text>
+                    )}
+                    <PanelButton
+                      label={
+                        rrefShowLeastSquares
+                          ? "Hide Closest Point"
+                          : "Show Closest Point (Least Squares)"
+                      }
+                      position={[0, -0.13, 0]}
+                      width={0.4}
+                      height={0.035}
+                      fontSize={0.015}
+                      color="#a60"
+                      onSelect={toggleRrefLeastSquares}
+                      disabled={!rrefLeastSquaresSolution}
+                    />
+                  </>
+                )}
+                {parametricText && (
+                  <Text
+                    fontSize={0.015}
+                    color="#8ff"
+                    anchorX="center"
+                    anchorY="top"
+                    position={[0, -0.045, 0.01]}
+                    maxWidth={panelWidth * 0.9}
+                  >
+                    {parametricText}
+                  </Text>
+                )}
               </group>
             )}
             <group position={[0, bottomButtonsY, 0.01]}>
@@ -1355,6 +7500,167 @@ const RrefPanel = () => {
   );
 };
 
+// An intersection of the step being moved to, and the rows it is computed
+// from, so that it can follow the blended rows.
+interface RrefTrackedIntersection {
+  id: string;
+  rows: number[];
+  data: Vector3 | Line3;
+}
+
+// Writes blended rows to the RREF plane groups (indexed by row), hiding a
+// plane whose blended row momentarily has no normal. Each tracked
+// intersection is drawn where it lies at the target and its group carries
+// it to where the blended rows meet, or hides it while they don't.
+const showRrefRows = (
+  planeGroups: (Group | null)[],
+  intersectionGroups: Record<string, Group | null>,
+  tracked: RrefTrackedIntersection[],
+  rows: number[][],
+  atTarget: boolean
+) => {
+  rows.forEach((row, i) => {
+    const group = planeGroups[i];
+    if (!group) return;
+    const transform = getPlaneTransformFromRow(row);
+    group.visible = !!transform?.isValid;
+    if (!transform?.isValid) return;
+    group.position.copy(transform.position);
+    group.rotation.copy(transform.rotation);
+  });
+  for (const { id, rows: sourceRows, data } of tracked) {
+    const group = intersectionGroups[id];
+    if (!group) continue;
+    group.visible = true;
+    group.position.set(0, 0, 0);
+    group.quaternion.identity();
+    if (atTarget) continue;
+    const planes = sourceRows.map((r) => getPlaneGeometryFromRow(rows[r]));
+    if (planes.some((plane) => !plane)) {
+      group.visible = false;
+      continue;
+    }
+    const [p1, p2, p3] = planes as PlaneGeometry[];
+    if (data instanceof Vector3) {
+      const hit = p3 && intersectThreePlaneGeometries(p1, p2, p3);
+      group.visible = !!hit;
+      if (hit) group.position.subVectors(hit.point, data);
+      continue;
+    }
+    const hit = intersectPlaneGeometries(p1, p2);
+    group.visible = !!hit;
+    if (!hit) continue;
+    // Turn the target line onto the blended one about the origin, then
+    // shift its centre onto the blended line's centre.
+    group.quaternion.setFromUnitVectors(
+      data.delta(new Vector3()).normalize(),
+      hit.line.delta(new Vector3()).normalize()
+    );
+    group.position.subVectors(
+      hit.line.getCenter(new Vector3()),
+      data.getCenter(new Vector3()).applyQuaternion(group.quaternion)
+    );
+  }
+};
+
+// Moves the RREF planes towards each new step by blending rows. A blend of
+// two rows that both hold on the solution set still holds on it, so the
+// planes turn and slide about the solution instead of jumping, and the
+// intersections the planes have in common stay put. Each frame's blend is
+// written straight to the planes' and intersections' groups, so the scene
+// only re-renders when a move starts or ends.
+const useRrefStepTween = (
+  matrix: ScalarMatrix | null,
+  speed: number,
+  tracked: RrefTrackedIntersection[]
+): {
+  planeGroups: React.RefObject<(Group | null)[]>;
+  intersectionGroups: React.RefObject<Record<string, Group | null>>;
+  isMoving: boolean;
+} => {
+  const target = useMemo(
+    () => matrix?.map((row) => row.map(scalarToNumber)) ?? null,
+    [matrix]
+  );
+  const planeGroups = useRef<(Group | null)[]>([]);
+  const intersectionGroups = useRef<Record<string, Group | null>>({});
+  const trackedRef = useRef(tracked);
+  const shownRef = useRef(target);
+  const tweenRef = useRef<{ from: number[][]; progress: number } | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  // Declared first so the effect below poses the new step's intersections.
+  useLayoutEffect(() => {
+    trackedRef.current = tracked;
+  }, [tracked]);
+  useLayoutEffect(() => {
+    const from = shownRef.current;
+    const sameShape =
+      !!from &&
+      !!target &&
+      from !== target &&
+      from.length === target.length &&
+      from.every((row, i) => row.length === target[i].length);
+    if (sameShape) {
+      tweenRef.current = { from, progress: 0 };
+      showRrefRows(
+        planeGroups.current,
+        intersectionGroups.current,
+        trackedRef.current,
+        from,
+        false
+      );
+      setIsMoving(true);
+    } else {
+      tweenRef.current = null;
+      shownRef.current = target;
+      if (target)
+        showRrefRows(
+          planeGroups.current,
+          intersectionGroups.current,
+          trackedRef.current,
+          target,
+          true
+        );
+      setIsMoving(false);
+    }
+  }, [target]);
+  useFrame((_, delta) => {
+    const tween = tweenRef.current;
+    if (!tween || !target) return;
+    tween.progress = Math.min(
+      1,
+      tween.progress + (delta * speed) / RREF_TWEEN_SECONDS
+    );
+    const t = tween.progress * tween.progress * (3 - 2 * tween.progress);
+    const done = tween.progress >= 1;
+    const rows = done
+      ? target
+      : tween.from.map((row, i) =>
+          row.map((value, j) => value + (target[i][j] - value) * t)
+        );
+    shownRef.current = rows;
+    showRrefRows(
+      planeGroups.current,
+      intersectionGroups.current,
+      tracked,
+      rows,
+      done
+    );
+    if (done) {
+      tweenRef.current = null;
+      setIsMoving(false);
+    }
+  });
+  return { planeGroups, intersectionGroups, isMoving };
+};
+
+// Whether a measuring pick refers to this intersection, under its own id or
+// that of another pair or triple of the planes through it.
+const isPickedAs = (
+  intersection: { id: string; pickIds?: string[] },
+  id: string
+) => intersection.id === id || !!intersection.pickIds?.includes(id);
+
 export const ARScene = () => {
   const {
     objects,
@@ -1365,9 +7671,42 @@ export const ARScene = () => {
     rrefStepIndex,
     rrefState,
     rrefAnalysis,
+    rrefArithmetic,
     rrefUniqueSolutionPoint,
+    rrefLeastSquaresSolution,
+    rrefShowLeastSquares,
+    rrefPlaybackSpeed,
+    isMeasuring,
+    measuredIds,
+    selectObject,
   } = useLinePlaneStore();
 
+  useEffect(() => {
+    const { restoreAutosave, applyShareHash } = useLinePlaneStore.getState();
+    restoreAutosave();
+    // Once applied, the hash is dropped from the address bar so a reload
+    // shows the autosaved edits instead of re-opening the shared scene.
+    const handleHashChange = () => {
+      if (window.location.hash.length <= 1) return;
+      applyShareHash(window.location.hash);
+      window.history.replaceState(
+        null,
+        "",
+        window.location.pathname + window.location.search
+      );
+    };
+    // A shared link takes precedence over the autosaved scene.
+    handleHashChange();
+    window.addEventListener("hashchange", handleHashChange);
+    const stopAutosave = startSceneAutosave();
+    return () => {
+      window.removeEventListener("hashchange", handleHashChange);
+      stopAutosave();
+    };
+  }, []);
+
+  useNumericEntryKeyboard();
+
   const didSeedRef = useRef(false);
   useEffect(() => {
     if (
@@ -1381,31 +7720,41 @@ export const ARScene = () => {
   }, [mode]);
 
   const rrefScale = 1 / 3;
+  const rrefNumVars = Math.max(0, (initialRrefMatrix[0]?.length || 1) - 1);
+
+  const currentRrefStep =
+    mode === "rref" &&
+    rrefState === "viewing" &&
+    rrefStepIndex >= 0 &&
+    rrefStepIndex < rrefHistory.length
+      ? rrefHistory[rrefStepIndex]
+      : null;
+  const rrefMatrix: ScalarMatrix | null =
+    mode === "rref" ? (currentRrefStep?.matrix ?? initialRrefMatrix) : null;
 
   const rrefPlaneData = useMemo(() => {
-    if (mode !== "rref") return [];
-    const matrixToVisualize =
-      rrefState === "viewing" &&
-      rrefHistory &&
-      rrefStepIndex >= 0 &&
-      rrefStepIndex < rrefHistory.length
-        ? rrefHistory[rrefStepIndex]
-        : initialRrefMatrix;
-    if (!matrixToVisualize) return [];
+    const matrixToVisualize = rrefMatrix;
+    if (!matrixToVisualize || !isDrawableSystem(matrixToVisualize)) return [];
+    const affectedRows = currentRrefStep
+      ? getAffectedRows(currentRrefStep.operation)
+      : [];
     const planeData = matrixToVisualize
       .map((row, index) => {
-        const transform = getPlaneTransformFromRow(row);
+        const transform = getPlaneTransformFromRow(row.map(scalarToNumber));
         if (transform) {
-          const formatNum = (n: number) => n.toFixed(1).replace(".0", "");
+          const formatNum = (n: Scalar) =>
+            isRational(n) ? formatScalar(n) : n.toFixed(1).replace(".0", "");
 
           const eqStr = `${formatNum(row[0])}x + ${formatNum(row[1])}y + ${formatNum(row[2])}z = ${formatNum(row[3])}`;
           return {
-            id: `rref-plane-${index}-${rrefStepIndex}`,
+            id: `rref-plane-${index}`,
             position: transform.position,
             rotation: transform.rotation,
             equation: eqStr,
-            color: ["#ffaaaa", "#aaffaa", "#aaaaff"][index % 3],
+            color: RREF_PLANE_COLORS[index % RREF_PLANE_COLORS.length],
             isValid: transform.isValid,
+            isHighlighted: affectedRows.includes(index),
+            rowIndex: index,
           };
         }
         return null;
@@ -1417,70 +7766,215 @@ export const ARScene = () => {
       equation: string;
       color: string;
       isValid: boolean;
+      isHighlighted: boolean;
+      rowIndex: number;
     }[];
     return planeData;
-  }, [mode, rrefState, initialRrefMatrix, rrefHistory, rrefStepIndex]);
+  }, [rrefMatrix, currentRrefStep]);
+
+  const inconsistencyDiagnosis = useMemo(() => {
+    if (mode !== "rref" || rrefAnalysis?.consistency !== "inconsistent")
+      return null;
+    const step = rrefHistory[rrefStepIndex];
+    if (!step || !isDrawableSystem(step.matrix)) return null;
+    return diagnoseInconsistency(
+      step.matrix.map((row) => row.map(scalarToNumber))
+    );
+  }, [mode, rrefAnalysis, rrefHistory, rrefStepIndex]);
+  const conflictingRows = new Set(
+    inconsistencyDiagnosis
+      ? [
+          ...inconsistencyDiagnosis.parallelPairs.flatMap((p) => p.rows),
+          ...inconsistencyDiagnosis.prisms.flatMap((p) => p.rows),
+        ]
+      : []
+  );
+  const leastSquaresPoint =
+    mode === "rref" &&
+    rrefShowLeastSquares &&
+    rrefLeastSquaresSolution?.length === 3
+      ? new Vector3(...rrefLeastSquaresSolution.map(scalarToNumber))
+      : null;
+
+  const solutionSet = useMemo(() => {
+    const solution = rrefAnalysis?.generalSolution;
+    if (mode !== "rref" || !solution || rrefAnalysis.numVars !== 3) return null;
+    const toVector = (values: Scalar[]) =>
+      new Vector3(...values.map(scalarToNumber));
+    return {
+      point: toVector(solution.particular),
+      directions: solution.directions.map(toVector),
+      label: formatParametricSolution(solution, rrefArithmetic),
+    };
+  }, [mode, rrefAnalysis, rrefArithmetic]);
+
+  // Visible planes with their geometry, in the order the intersection
+  // analysis refers to them by index.
+  const activePlanes = useMemo(() => {
+    const planes =
+      mode === "rref"
+        ? rrefPlaneData
+            .filter((pd) => pd.isValid)
+            .map((pd) => ({ ...pd, name: `row ${pd.rowIndex + 1}` }))
+        : objects
+            .filter(isShownPlane)
+            .map((object) => ({ ...object, name: object.equation }));
+    return planes.map(({ id, name, position, rotation }) => ({
+      id,
+      name,
+      position,
+      rotation,
+      geometry: getPlaneGeometryFromTransform(position, rotation),
+    }));
+  }, [mode, objects, rrefPlaneData]);
+  const planeIntersections = useMemo(
+    () => analyzePlaneIntersections(activePlanes.map((p) => p.geometry)),
+    [activePlanes]
+  );
+
+  // One badge per set of coincident planes, naming the planes it stands for
+  // and any distinct planes parallel to it.
+  const planeBadges = useMemo(() => {
+    const { groups, pairs } = planeIntersections;
+    const names = (representative: number) =>
+      groups
+        .find((g) => g[0] === representative)
+        ?.map((i) => activePlanes[i].name)
+        .join(" & ");
+    const isRepresentative = (plane: number) =>
+      groups.some((g) => g[0] === plane);
+    return groups.flatMap((group) => {
+      const notes = group.length > 1 ? [`${names(group[0])}: same plane`] : [];
+      for (const { planes, relation } of pairs) {
+        if (relation.kind !== "parallel" || !planes.every(isRepresentative))
+          continue;
+        const other =
+          planes[0] === group[0]
+            ? planes[1]
+            : planes[1] === group[0]
+              ? planes[0]
+              : null;
+        if (other === null) continue;
+        notes.push(
+          `parallel to ${names(other)}, ${relation.gap.toFixed(2)} apart`
+        );
+      }
+      if (notes.length === 0) return [];
+      const plane = activePlanes[group[0]];
+      return [
+        {
+          id: plane.id,
+          position: plane.position,
+          rotation: plane.rotation,
+          notes,
+        },
+      ];
+    });
+  }, [activePlanes, planeIntersections]);
+
+  const degenerateRows = useMemo(
+    () =>
+      rrefMatrix && isDrawableSystem(rrefMatrix)
+        ? rrefMatrix.flatMap((row, index) =>
+            row.slice(0, 3).every((v) => Math.abs(scalarToNumber(v)) < EPSILON)
+              ? [{ row: index, value: row[3] }]
+              : []
+          )
+        : [],
+    [rrefMatrix]
+  );
+  const wholeSpaceRows = degenerateRows.filter(
+    (r) => Math.abs(scalarToNumber(r.value)) < EPSILON
+  );
+  const contradictionRows = degenerateRows.filter(
+    (r) => Math.abs(scalarToNumber(r.value)) >= EPSILON
+  );
 
   const intersections = useMemo(() => {
     type IntersectionResult = {
       id: string;
-      type: "point" | "line";
+      type: "point" | "line" | "segment";
       data: Vector3 | Line3;
       label: string;
       isSolutionPoint?: boolean;
+      sourcePlanes?: number[];
+      pickIds?: string[];
     };
     const results: IntersectionResult[] = [];
+    const planeIds = (planes: number[]) =>
+      planes.map((i) => activePlanes[i].id).join("-");
+    // Ids come from the planes an intersection was computed from, so they
+    // don't change when another plane moves onto it. A pick made under any
+    // pair (or triple) of its planes still finds it after merging.
+    const combinations = (planes: number[], size: number): number[][] =>
+      size === 0
+        ? [[]]
+        : planes.flatMap((plane, i) =>
+            combinations(planes.slice(i + 1), size - 1).map((rest) => [
+              plane,
+              ...rest,
+            ])
+          );
+    const pickIds = (planes: number[], size: number, suffix: string) =>
+      combinations(planes, size).map((c) => `${planeIds(c)}-${suffix}`);
 
-    const activePlanes =
-      mode === "rref"
-        ? rrefPlaneData
-            .filter((pd) => pd.isValid)
-            .map((pd) => ({
-              id: pd.id,
-              type: "plane" as const,
-              position: pd.position,
-              rotation: pd.rotation,
-              visible: true,
-              color: "",
-              equation: "",
-            }))
-        : objects.filter((o) => o.visible && o.type === "plane");
-
-    for (let i = 0; i < activePlanes.length; i++) {
-      for (let j = i + 1; j < activePlanes.length; j++) {
-        const obj1 = activePlanes[i];
-        const obj2 = activePlanes[j];
-        const pairId = `${obj1.id}-${obj2.id}`;
-        let intersectionLine = intersectPlanePlane(obj1, obj2);
-        if (intersectionLine) {
-          results.push({
-            id: `${pairId}-l`,
-            type: "line",
-            data: intersectionLine.line,
-            label: intersectionLine.label,
-          });
-        }
-      }
+    for (const hit of planeIntersections.lines) {
+      results.push({
+        id: `${planeIds(hit.source)}-l`,
+        type: "line",
+        data: hit.line,
+        label: hit.label,
+        sourcePlanes: hit.source,
+        pickIds: pickIds(hit.planes, 2, "l"),
+      });
+    }
+    for (const hit of planeIntersections.points) {
+      results.push({
+        id: `${planeIds(hit.source)}-p`,
+        type: "point",
+        data: hit.point,
+        label: hit.label,
+        isSolutionPoint: true,
+        sourcePlanes: hit.source,
+        pickIds: pickIds(hit.planes, 3, "p"),
+      });
     }
 
-    if (activePlanes.length >= 3) {
-      for (let i = 0; i < activePlanes.length; i++) {
-        for (let j = i + 1; j < activePlanes.length; j++) {
-          for (let k = j + 1; k < activePlanes.length; k++) {
-            const obj1 = activePlanes[i];
-            const obj2 = activePlanes[j];
-            const obj3 = activePlanes[k];
-            const tripletId = `${obj1.id}-${obj2.id}-${obj3.id}`;
-            let intersectionPoint = intersectThreePlanes(obj1, obj2, obj3);
-            if (intersectionPoint) {
-              results.push({
-                id: `${tripletId}-p`,
-                type: "point",
-                data: intersectionPoint.point,
-                label: intersectionPoint.label,
-                isSolutionPoint: true,
-              });
-            }
+    if (mode !== "rref") {
+      const lines = objects.filter((o) => o.visible && o.type === "line");
+      for (let i = 0; i < lines.length; i++) {
+        const lineGeom = getLineGeometry(lines[i]);
+        if (!lineGeom) continue;
+        for (const planeObj of activePlanes) {
+          const hit = intersectLinePlane(lineGeom, planeObj.geometry);
+          if (hit) {
+            results.push({
+              id: `${lines[i].id}-${planeObj.id}-p`,
+              type: "point",
+              data: hit.point,
+              label: hit.label,
+            });
+          }
+        }
+        for (let j = i + 1; j < lines.length; j++) {
+          const otherGeom = getLineGeometry(lines[j]);
+          if (!otherGeom) continue;
+          const pairId = `${lines[i].id}-${lines[j].id}`;
+          const relation = relateLines(lineGeom, otherGeom);
+          if (relation.kind === "intersecting") {
+            results.push({
+              id: `${pairId}-p`,
+              type: "point",
+              data: relation.point,
+              label: relation.label,
+            });
+          } else if (relation.kind !== "coincident") {
+            results.push({
+              id: `${pairId}-s`,
+              type: "segment",
+              data: relation.segment,
+              label: relation.label,
+            });
           }
         }
       }
@@ -1509,13 +8003,97 @@ export const ARScene = () => {
     }
 
     return results;
-  }, [mode, objects, rrefPlaneData, rrefAnalysis, rrefUniqueSolutionPoint]);
+  }, [
+    mode,
+    objects,
+    activePlanes,
+    planeIntersections,
+    rrefAnalysis,
+    rrefUniqueSolutionPoint,
+  ]);
+
+  const rrefTrackedIntersections = useMemo(
+    () =>
+      mode === "rref"
+        ? intersections.flatMap(({ id, data, sourcePlanes }) =>
+            sourcePlanes
+              ? [
+                  {
+                    id,
+                    data,
+                    rows: sourcePlanes.map(
+                      (plane) =>
+                        rrefPlaneData.find(
+                          (pd) => pd.id === activePlanes[plane].id
+                        )!.rowIndex
+                    ),
+                  },
+                ]
+              : []
+          )
+        : [],
+    [mode, intersections, rrefPlaneData, activePlanes]
+  );
+  const rrefTween = useRrefStepTween(
+    rrefMatrix,
+    rrefPlaybackSpeed,
+    rrefTrackedIntersections
+  );
+
+  const measurement = useMemo(() => {
+    if (!isMeasuring || measuredIds.length < 2) return null;
+    const resolve = (id: string): MeasureTarget | null => {
+      const object = objects.find((o) => o.id === id);
+      if (object?.type === "plane")
+        return isShownPlane(object)
+          ? {
+              kind: "plane",
+              plane: getPlaneGeometryFromTransform(
+                object.position,
+                object.rotation
+              ),
+              anchor: object.position,
+            }
+          : null;
+      if (object?.type === "line") {
+        const line = getLineGeometry(object);
+        return line && { kind: "line", line };
+      }
+      if (object?.type === "vector")
+        return {
+          kind: "point",
+          point: object.position.clone().add(object.components),
+        };
+      const intersection = intersections.find((i) => isPickedAs(i, id));
+      if (intersection?.type === "point")
+        return { kind: "point", point: intersection.data as Vector3 };
+      if (intersection?.type === "line") {
+        const line = intersection.data as Line3;
+        return {
+          kind: "line",
+          line: {
+            point: line.getCenter(new Vector3()),
+            direction: line.delta(new Vector3()).normalize(),
+          },
+        };
+      }
+      return null;
+    };
+    const [a, b] = measuredIds.map(resolve);
+    return a && b ? measureBetween(a, b) : null;
+  }, [isMeasuring, measuredIds, objects, intersections]);
+  const pickForMeasuring = (id: string) =>
+    isMeasuring ? () => selectObject(id) : undefined;
+  const isMeasured = (intersection: (typeof intersections)[number]) =>
+    isMeasuring && measuredIds.some((id) => isPickedAs(intersection, id));
 
   return (
     <>
       <ambientLight intensity={0.7} />
       <directionalLight position={[2, 5, 3]} intensity={0.5} />
       <CoordinateSystem />
+      <LessonBar />
+      <NumericKeypad />
 
       {mode === "rref" ? (
         <>
@@ -1523,44 +8101,165 @@ export const ARScene = () => {
             {rrefPlaneData.map(
               (plane) =>
                 plane.isValid && (
-                  <MathPlane
+                  <group
                     key={plane.id}
-                    id={plane.id}
+                    ref={(group) => {
+                      rrefTween.planeGroups.current[plane.rowIndex] = group;
+                    }}
                     position={plane.position}
                     rotation={plane.rotation}
-                    color={plane.color}
-                    isSelected={false}
-                    equation={plane.equation}
-                  />
+                  >
+                    <MathPlane
+                      id={plane.id}
+                      position={GROUP_PLACED_POSITION}
+                      rotation={GROUP_PLACED_ROTATION}
+                      color={plane.color}
+                      isSelected={false}
+                      isHighlighted={plane.isHighlighted}
+                      isConflicting={conflictingRows.has(plane.rowIndex)}
+                      equation={plane.equation}
+                    />
+                  </group>
                 )
             )}
-            {intersections
-              .filter((i) => i.type === "line")
-              .map((intersection) => (
-                <IntersectionLine
-                  key={intersection.id}
-                  line={intersection.data as Line3}
-                  label={intersection.label}
+            {!rrefTween.isMoving &&
+              planeBadges.map((badge) => (
+                <PlaneRelationBadge
+                  key={`badge-${badge.id}`}
+                  position={badge.position}
+                  rotation={badge.rotation}
+                  notes={badge.notes}
+                  size={4}
                 />
               ))}
-            {intersections
-              .filter((i) => i.type === "point")
-              .map((intersection) => (
-                <IntersectionPoint
-                  key={intersection.id}
-                  position={intersection.data as Vector3}
-                  label={intersection.label}
+            {wholeSpaceRows.length > 0 && (
+              <WholeSpaceIndicator
+                label={`${wholeSpaceRows.length === 1 ? "Row" : "Rows"} ${wholeSpaceRows.map((r) => r.row + 1).join(", ")}: 0 = 0 holds for every point (all of R³)`}
+              />
+            )}
+            {contradictionRows.map((r, i) => (
+              <ContradictionMarker
+                key={`contradiction-${r.row}`}
+                position={[-1.5, 2.8 + i * 0.45, 0]}
+                label={`Row ${r.row + 1}: 0 = ${formatScalar(r.value)} holds for no point`}
+              />
+            ))}
+            {/* Intersections are those of the step being moved to; while
+                the planes move, their groups carry them along unlabelled. */}
+            {intersections.map((intersection) => (
+              <group
+                key={intersection.id}
+                ref={(group) => {
+                  rrefTween.intersectionGroups.current[intersection.id] = group;
+                }}
+              >
+                {intersection.type === "line" ? (
+                  <IntersectionLine
+                    line={intersection.data as Line3}
+                    label={rrefTween.isMoving ? "" : intersection.label}
+                  />
+                ) : (
+                  intersection.type === "point" && (
+                    <IntersectionPoint
+                      position={intersection.data as Vector3}
+                      label={rrefTween.isMoving ? "" : intersection.label}
+                    />
+                  )
+                )}
+              </group>
+            ))}
+            {inconsistencyDiagnosis?.parallelPairs.map((pair) => (
+              <DistanceSegment
+                key={`gap-${pair.rows.join("-")}`}
+                from={pair.from}
+                to={pair.to}
+                label={`parallel, gap ${pair.gap.toFixed(2)}`}
+                fontSize={0.06}
+              />
+            ))}
+            {inconsistencyDiagnosis?.prisms.flatMap((prism) =>
+              prism.lines.map((line, i) => (
+                <IntersectionLine
+                  key={`prism-${prism.rows.join("-")}-${i}`}
+                  line={line}
+                  label={i === 0 ? "parallel lines: no common point" : ""}
+                  color="#ff3333"
+                  labelColor="#ff8888"
                 />
-              ))}
+              ))
+            )}
+            {leastSquaresPoint && (
+              <IntersectionPoint
+                position={leastSquaresPoint}
+                label={`closest (${leastSquaresPoint.x.toFixed(2)}, ${leastSquaresPoint.y.toFixed(2)}, ${leastSquaresPoint.z.toFixed(2)})`}
+                color="#ff9900"
+                emissive="#aa5500"
+                labelColor="orange"
+              />
+            )}
+            {solutionSet?.directions.length === 0 && (
+              <SolutionSetPoint
+                point={solutionSet.point}
+                label={solutionSet.label}
+              />
+            )}
+            {solutionSet?.directions.length === 1 && (
+              <SolutionSetLine
+                point={solutionSet.point}
+                direction={solutionSet.directions[0]}
+                label={solutionSet.label}
+              />
+            )}
+            {solutionSet?.directions.length === 2 && (
+              <SolutionSetPlane
+                point={solutionSet.point}
+                directionA={solutionSet.directions[0]}
+                directionB={solutionSet.directions[1]}
+                label={solutionSet.label}
+              />
+            )}
           </group>
+          {rrefNumVars !== 3 && (
+            <Text
+              position={[0, 0.6, -0.5]}
+              fontSize={0.04}
+              color="orange"
+              anchorX="center"
+              anchorY="middle"
+              maxWidth={1.2}
+              outlineWidth={0.002}
+              outlineColor="#000000"
+            >
+              {`A system in ${rrefNumVars} variable${rrefNumVars === 1 ? "" : "s"} can't be drawn as planes in 3D. Only 3-variable systems are visualized.`}
+            </Text>
+          )}
           <RrefPanel />
         </>
+      ) : mode === "transform" ? (
+        <>
+          <TransformationView planes={objects.filter(isShownPlane)} />
+          <TransformPanel />
+        </>
+      ) : mode === "eigen" ? (
+        <>
+          <EigenView />
+          <EigenPanel />
+        </>
+      ) : mode === "span" ? (
+        <>
+          <SpanView />
+          <SpanPanel />
+        </>
+      ) : mode === "practice" ? (
+        <>
+          <PracticeView />
+          <PracticePanel />
+        </>
       ) : (
         <>
           {objects.map(
             (object) =>
-              object.visible &&
-              object.type === "plane" && (
+              isShownPlane(object) && (
                 <MathPlane
                   key={object.id}
                   id={object.id}
@@ -1571,6 +8270,37 @@ export const ARScene = () => {
                 />
               )
           )}
+          {planeBadges.map((badge) => (
+            <PlaneRelationBadge
+              key={`badge-${badge.id}`}
+              position={badge.position}
+              rotation={badge.rotation}
+              notes={badge.notes}
+              size={1}
+            />
+          ))}
+          {objects.map(
+            (object) =>
+              object.visible &&
+              object.type === "line" && (
+                <MathLine
+                  key={object.id}
+                  line={object}
+                  isSelected={object.id === selectedObjectId}
+                />
+              )
+          )}
+          {objects.map(
+            (object) =>
+              object.visible &&
+              object.type === "vector" && (
+                <MathVector
+                  key={object.id}
+                  vector={object}
+                  isSelected={object.id === selectedObjectId}
+                />
+              )
+          )}
           {intersections
             .filter((i) => i.type === "line")
             .map((intersection) => (
@@ -1578,6 +8308,8 @@ export const ARScene = () => {
                 key={intersection.id}
                 line={intersection.data as Line3}
                 label={intersection.label}
+                onSelect={pickForMeasuring(intersection.id)}
+                isSelected={isMeasured(intersection)}
               />
             ))}
           {intersections
@@ -1587,9 +8319,53 @@ export const ARScene = () => {
                 key={intersection.id}
                 position={intersection.data as Vector3}
                 label={intersection.label}
+                onSelect={pickForMeasuring(intersection.id)}
+                isSelected={isMeasured(intersection)}
+              />
+            ))}
+          {measurement?.kind === "distance" && (
+            <DistanceSegment
+              from={measurement.from}
+              to={measurement.to}
+              label={measurement.label}
+              color="#ffcc33"
+              labelColor="#ffe080"
+            />
+          )}
+          {measurement?.kind === "angle" && (
+            <AngleArc
+              vertex={measurement.vertex}
+              from={measurement.from}
+              to={measurement.to}
+              angle={measurement.angle}
+              label={measurement.label}
+            />
+          )}
+          {intersections
+            .filter((i) => i.type === "segment")
+            .map((intersection) => (
+              <DistanceSegment
+                key={intersection.id}
+                from={(intersection.data as Line3).start}
+                to={(intersection.data as Line3).end}
+                label={intersection.label}
+                color="#33ddff"
+                labelColor="#99eeff"
               />
             ))}
-          {mode === "random" ? <ControlPanel /> : <EquationPanel />}
+          {mode === "random" ? (
+            <ControlPanel />
+          ) : mode === "vector" ? (
+            <VectorPanel />
+          ) : mode === "line" ? (
+            <LinePanel />
+          ) : mode === "lessons" ? (
+            <LessonLibraryPanel />
+          ) : mode === "generator" ? (
+            <GeneratorPanel />
+          ) : (
+            <EquationPanel />
+          )}
         </>
       )}
     </>
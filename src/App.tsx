@@ -1,7 +1,113 @@
+import { useState } from "react";
 import { Canvas } from "@react-three/fiber";
-import { PerspectiveCamera } from "@react-three/drei";
+import { OrbitControls, PerspectiveCamera } from "@react-three/drei";
 import { XR, createXRStore } from "@react-three/xr";
-import { ARScene } from "./ARScene";
+import { ARScene, useLinePlaneStore } from "./ARScene";
+
+// Kept out of App so store updates don't re-render it (and recreate the XR store).
+const SceneFileControls = () => {
+  const sceneError = useLinePlaneStore((state) => state.sceneError);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const handleSave = () => {
+    const blob = new Blob([useLinePlaneStore.getState().exportScene()], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "scene.json";
+    link.click();
+    // Revoking right away can cancel the download in some browsers.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+  const handleShare = async () => {
+    const { getShareHash, reportSceneError } = useLinePlaneStore.getState();
+    const { origin, pathname, search } = window.location;
+    const link = `${origin}${pathname}${search}#${getShareHash()}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied; show the link so it can be copied by hand.
+      reportSceneError(`Could not copy the link, copy it from here: ${link}`);
+    }
+  };
+  const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const { importScene, reportSceneError } = useLinePlaneStore.getState();
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      reportSceneError(
+        `Could not load scene: ${error instanceof Error ? error.message : "the file could not be read."}`
+      );
+      return;
+    }
+    importScene(text);
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: "10px",
+        right: "10px",
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "flex-end",
+        gap: "6px",
+        pointerEvents: "auto",
+      }}
+    >
+      <div style={{ display: "flex", gap: "6px" }}>
+        <button onClick={handleShare}>
+          {linkCopied ? "Link Copied" : "Share Link"}
+        </button>
+        <button onClick={handleSave}>Save Scene</button>
+        <label
+          style={{
+            padding: "1px 6px",
+            border: "1px solid #aaa",
+            background: "#eee",
+            color: "black",
+            cursor: "pointer",
+          }}
+        >
+          Load Scene
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleLoad}
+            style={{ display: "none" }}
+          />
+        </label>
+      </div>
+      {sceneError && (
+        <div
+          style={{
+            maxWidth: "320px",
+            overflowWrap: "anywhere",
+            padding: "6px",
+            background: "#622",
+            color: "white",
+            fontSize: "14px",
+          }}
+        >
+          {sceneError}{" "}
+          <button
+            onClick={() => useLinePlaneStore.getState().dismissSceneError()}
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
 
 const App = () => {
   // Create a store for XR state
@@ -18,6 +124,9 @@ const App = () => {
       >
         <color args={[0, 0, 0]} attach={"background"} />
         <PerspectiveCamera makeDefault position={[0, 1.6, 2]} fov={75} />
+        {/* Desktop camera: drag to orbit, right-drag to pan, scroll to zoom.
+            Inactive in XR, where the headset drives the camera. */}
+        <OrbitControls makeDefault target={[0, 1.2, -1]} />
         <ambientLight intensity={0.5} />
         <directionalLight position={[5, 5, 5]} intensity={1} />
 
@@ -28,7 +137,8 @@ const App = () => {
         </XR>
       </Canvas>
 
-      {/* UI for non-AR mode and enter button */}
+      {/* UI for non-AR mode and enter button. The overlay lets the mouse
+          through to the canvas; only its controls take pointer events. */}
       <div
         style={{
           position: "fixed",
@@ -39,11 +149,17 @@ const App = () => {
           justifyContent: "space-between",
           alignItems: "center",
           color: "white",
+          pointerEvents: "none",
         }}
       >
         <div>
           <div style={{ paddingTop: "10px" }}>Linear Algebra AR Visualizer</div>
+          <div style={{ fontSize: "12px", opacity: 0.7, textAlign: "center" }}>
+            Drag to orbit, right-drag to pan, scroll to zoom. Click panels and
+            drag planes with the mouse.
+          </div>
         </div>
+        <SceneFileControls />
         <button
           onClick={() => xrStore.enterAR()}
           style={{
@@ -52,6 +168,7 @@ const App = () => {
             left: "50%",
             transform: "translateX(-50%)",
             fontSize: "20px",
+            pointerEvents: "auto",
           }}
         >
           Enter AR
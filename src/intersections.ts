@@ -0,0 +1,286 @@
+import { Line3, Vector3 } from "three";
+
+// Plane as n·x + D = 0 with a unit normal n.
+export type PlaneGeometry = { normal: Vector3; constantD: number };
+
+// Unit normals whose cross product (or triple product) is smaller than this
+// are treated as parallel (or as lacking a common point).
+const PARALLEL_TOLERANCE = 1e-6;
+
+// Distances are compared against this times the scene's scale, the largest
+// distance of a plane from the origin (at least 1). Far-away planes carry
+// proportionally larger rounding errors, so a fixed epsilon would either
+// split their intersections into near-duplicates or merge distinct ones.
+const RELATIVE_TOLERANCE = 1e-6;
+
+const INTERSECTION_LINE_LENGTH = 10;
+
+export const getPlaneGeometryFromRow = (
+  row: number[]
+): PlaneGeometry | null => {
+  const normal = new Vector3(row[0], row[1], row[2]);
+  const length = normal.length();
+  if (length < PARALLEL_TOLERANCE) return null;
+  return { normal: normal.divideScalar(length), constantD: -row[3] / length };
+};
+
+export const areNormalsParallel = (n1: Vector3, n2: Vector3) =>
+  new Vector3().crossVectors(n1, n2).length() <= PARALLEL_TOLERANCE;
+
+export const intersectPlaneGeometries = (
+  p1Geom: PlaneGeometry,
+  p2Geom: PlaneGeometry
+): { line: Line3; label: string } | null => {
+  const n1 = p1Geom.normal;
+  const D1 = p1Geom.constantD;
+  const n2 = p2Geom.normal;
+  const D2 = p2Geom.constantD;
+
+  const lineDirection = new Vector3().crossVectors(n1, n2);
+  const n1xn2MagSq = lineDirection.lengthSq();
+  if (areNormalsParallel(n1, n2)) {
+    return null;
+  }
+  lineDirection.normalize();
+
+  const n1xn2NonNormalized = new Vector3().crossVectors(n1, n2);
+  const term1 = n2.clone().multiplyScalar(-D1);
+  const term2 = n1.clone().multiplyScalar(-D2);
+  const linePoint = new Vector3()
+    .crossVectors(term1.sub(term2), n1xn2NonNormalized)
+    .divideScalar(n1xn2MagSq);
+
+  const label = `P = (${linePoint.x.toFixed(1)}, ${linePoint.y.toFixed(1)}, ${linePoint.z.toFixed(1)}) + t(${lineDirection.x.toFixed(1)}, ${lineDirection.y.toFixed(1)}, ${lineDirection.z.toFixed(1)})`;
+  const halfLength = INTERSECTION_LINE_LENGTH / 2;
+  const startPoint = linePoint
+    .clone()
+    .addScaledVector(lineDirection, -halfLength);
+  const endPoint = linePoint.clone().addScaledVector(lineDirection, halfLength);
+  return { line: new Line3(startPoint, endPoint), label };
+};
+
+export const intersectThreePlaneGeometries = (
+  p1Geom: PlaneGeometry,
+  p2Geom: PlaneGeometry,
+  p3Geom: PlaneGeometry
+): { point: Vector3; label: string } | null => {
+  const n1 = p1Geom.normal;
+  const D1 = p1Geom.constantD;
+  const n2 = p2Geom.normal;
+  const D2 = p2Geom.constantD;
+  const n3 = p3Geom.normal;
+  const D3 = p3Geom.constantD;
+  const det = n1.dot(new Vector3().crossVectors(n2, n3));
+  if (Math.abs(det) <= PARALLEL_TOLERANCE) {
+    return null;
+  }
+  const n2xn3 = new Vector3().crossVectors(n2, n3);
+  const n3xn1 = new Vector3().crossVectors(n3, n1);
+  const n1xn2 = new Vector3().crossVectors(n1, n2);
+  const term1 = n2xn3.multiplyScalar(-D1);
+  const term2 = n3xn1.multiplyScalar(-D2);
+  const term3 = n1xn2.multiplyScalar(-D3);
+  const p = new Vector3().add(term1).add(term2).add(term3).divideScalar(det);
+  const label = `(${p.x.toFixed(2)}, ${p.y.toFixed(2)}, ${p.z.toFixed(2)})`;
+  return { point: p, label };
+};
+
+export type PlanePairRelation =
+  | { kind: "coincident" }
+  | { kind: "parallel"; gap: number }
+  | { kind: "intersecting"; line: Line3; label: string };
+
+// How a set of planes sits in space:
+// - coincident: every plane is the same plane
+// - parallel:   distinct planes, all normals parallel (no common point)
+// - sheaf:      all planes pass through one common line
+// - point:      all planes pass through exactly one common point
+// - prism:      normals lie in one plane but no line is common to all planes
+// - scattered:  anything else without a common point
+export type PlaneConfiguration =
+  | "empty"
+  | "single"
+  | "coincident"
+  | "parallel"
+  | "sheaf"
+  | "point"
+  | "prism"
+  | "scattered";
+
+// Planes are referred to by their index in the analysed list. `groups`
+// partitions them into coincident planes; `lines` and `points` are distinct
+// (duplicates merged), each listing every plane passing through it and the
+// pair or triple of planes it was computed from.
+export interface PlaneIntersections {
+  configuration: PlaneConfiguration;
+  groups: number[][];
+  pairs: { planes: [number, number]; relation: PlanePairRelation }[];
+  lines: {
+    line: Line3;
+    label: string;
+    planes: number[];
+    source: [number, number];
+  }[];
+  points: {
+    point: Vector3;
+    label: string;
+    planes: number[];
+    source: [number, number, number];
+  }[];
+  tolerance: number;
+}
+
+const mergePlaneIndices = (a: number[], b: number[]) =>
+  [...new Set([...a, ...b])].sort((x, y) => x - y);
+
+export const analyzePlaneIntersections = (
+  planes: PlaneGeometry[]
+): PlaneIntersections => {
+  const tolerance =
+    RELATIVE_TOLERANCE *
+    Math.max(1, ...planes.map((plane) => Math.abs(plane.constantD)));
+
+  const relate = (i: number, j: number): PlanePairRelation => {
+    const [p1, p2] = [planes[i], planes[j]];
+    if (areNormalsParallel(p1.normal, p2.normal)) {
+      const sign = Math.sign(p1.normal.dot(p2.normal));
+      const gap = Math.abs(p1.constantD - sign * p2.constantD);
+      return gap <= tolerance
+        ? { kind: "coincident" }
+        : { kind: "parallel", gap };
+    }
+    return { kind: "intersecting", ...intersectPlaneGeometries(p1, p2)! };
+  };
+
+  const pairs: PlaneIntersections["pairs"] = [];
+  for (let i = 0; i < planes.length; i++) {
+    for (let j = i + 1; j < planes.length; j++) {
+      pairs.push({ planes: [i, j], relation: relate(i, j) });
+    }
+  }
+  const relationOf = (i: number, j: number) =>
+    pairs.find((p) => p.planes[0] === i && p.planes[1] === j)!.relation;
+
+  const groups: number[][] = [];
+  planes.forEach((_, i) => {
+    const group = groups.find((g) => relationOf(g[0], i).kind === "coincident");
+    if (group) group.push(i);
+    else groups.push([i]);
+  });
+  const representatives = groups.map((g) => g[0]);
+  const members = (indices: number[]) =>
+    indices.flatMap((r) => groups[representatives.indexOf(r)]);
+
+  const lines: PlaneIntersections["lines"] = [];
+  for (let a = 0; a < representatives.length; a++) {
+    for (let b = a + 1; b < representatives.length; b++) {
+      const relation = relationOf(representatives[a], representatives[b]);
+      if (relation.kind !== "intersecting") continue;
+      const through = members([representatives[a], representatives[b]]);
+      const direction = relation.line.delta(new Vector3()).normalize();
+      const center = relation.line.getCenter(new Vector3());
+      const existing = lines.find((l) => {
+        const otherDirection = l.line.delta(new Vector3()).normalize();
+        return (
+          areNormalsParallel(direction, otherDirection) &&
+          l.line
+            .closestPointToPoint(center, false, new Vector3())
+            .distanceTo(center) <= tolerance
+        );
+      });
+      if (existing) {
+        existing.planes = mergePlaneIndices(existing.planes, through);
+      } else {
+        lines.push({
+          line: relation.line,
+          label: relation.label,
+          planes: mergePlaneIndices([], through),
+          source: [representatives[a], representatives[b]],
+        });
+      }
+    }
+  }
+
+  let normalsSpanSpace = false;
+  const points: PlaneIntersections["points"] = [];
+  for (let a = 0; a < representatives.length; a++) {
+    for (let b = a + 1; b < representatives.length; b++) {
+      for (let c = b + 1; c < representatives.length; c++) {
+        const indices: [number, number, number] = [
+          representatives[a],
+          representatives[b],
+          representatives[c],
+        ];
+        const hit = intersectThreePlaneGeometries(
+          planes[indices[0]],
+          planes[indices[1]],
+          planes[indices[2]]
+        );
+        if (!hit) continue;
+        normalsSpanSpace = true;
+        const existing = points.find(
+          (p) => p.point.distanceTo(hit.point) <= tolerance
+        );
+        if (existing) {
+          existing.planes = mergePlaneIndices(
+            existing.planes,
+            members(indices)
+          );
+        } else {
+          points.push({
+            ...hit,
+            planes: mergePlaneIndices([], members(indices)),
+            source: indices,
+          });
+        }
+      }
+    }
+  }
+
+  const throughAll = (planesThrough: number[]) =>
+    planesThrough.length === planes.length;
+  const hasParallelGroups = representatives.some((r, a) =>
+    representatives
+      .slice(a + 1)
+      .some((s) => relationOf(r, s).kind === "parallel")
+  );
+  let configuration: PlaneConfiguration;
+  if (planes.length === 0) configuration = "empty";
+  else if (planes.length === 1) configuration = "single";
+  else if (groups.length === 1) configuration = "coincident";
+  else if (lines.length === 0) configuration = "parallel";
+  else if (lines.length === 1 && throughAll(lines[0].planes))
+    configuration = "sheaf";
+  else if (points.length === 1 && throughAll(points[0].planes))
+    configuration = "point";
+  else if (!normalsSpanSpace && !hasParallelGroups) configuration = "prism";
+  else configuration = "scattered";
+
+  return { configuration, groups, pairs, lines, points, tolerance };
+};
+
+export const describePlaneConfiguration = ({
+  configuration,
+  groups,
+}: PlaneIntersections): string => {
+  switch (configuration) {
+    case "empty":
+      return "No planes to intersect.";
+    case "single":
+      return "A single plane.";
+    case "coincident":
+      return "All planes are the same plane.";
+    case "parallel":
+      return `${groups.length} distinct parallel planes: no common point.`;
+    case "sheaf":
+      return groups.length === 2
+        ? "The planes meet in a line."
+        : "All planes share one line (a sheaf).";
+    case "point":
+      return "All planes meet in a single point.";
+    case "prism":
+      return "The planes meet pairwise in parallel lines (a prism): no common point.";
+    case "scattered":
+      return "The planes have no common point.";
+  }
+};